@@ -1,221 +1,272 @@
-import type { Assessment, Language } from '@/shared/types';
-import { getApiKey } from '@/shared/storage';
+import type {
+  ApiKeyEntry,
+  Assessment,
+  ConversationTurn,
+  GlossaryEntry,
+  Language,
+  PartialAssessment,
+  ProviderId,
+  RetryProgress,
+  TokenUsage,
+} from '@/shared/types';
+import { getApiKeys, getSettings } from '@/shared/storage';
+import { ProviderError } from './providers';
+import type { AssessmentProvider } from './providers';
+import { validateAssessment, parsePartialAssessment } from './assessmentSchema';
+import type { ModelAssessment } from './assessmentSchema';
+import { withRetry, isRetryable, BASE_DELAY_MS, MAX_DELAY_MS } from './retryPolicy';
+import { CircuitBreaker } from './circuitBreaker';
+import { KeyPool } from './keyPool';
+import { getCachedAssessment, cacheAssessment, hashText } from './assessmentCache';
+import { buildAssessmentRequest } from './assessmentPrompt';
+import { detectGraderManipulation } from './injectionDetection';
+import { deriveScoreLevel } from '@/shared/scoring';
+import { recordUsage } from '@/shared/usage';
+import { createLogger } from '@/shared/logger';
+
+const log = createLogger('API Service');
+
+// Bump whenever the assessment prompt or schema changes so cached results are not reused
+const RUBRIC_VERSION = 'v5';
+
+// Error codes passed through to the UI as-is; other failures are mapped in assessPrompt
+const KNOWN_ERRORS = [
+  'NO_API_KEY',
+  'VAULT_LOCKED',
+  'INVALID_API_KEY',
+  'RATE_LIMIT',
+  'PARSE_FAILED',
+  'TIMEOUT',
+  'STREAM_UNAVAILABLE',
+  'SERVICE_UNAVAILABLE',
+  'SUPERSEDED',
+  'LOCAL_SERVER_UNAVAILABLE',
+  'LOCAL_MODEL_NOT_FOUND',
+  'LOCAL_ORIGIN_BLOCKED',
+];
+
+// One circuit breaker per provider, kept for the lifetime of the service worker
+const breakers = new Map<ProviderId, CircuitBreaker>();
+
+function getBreaker(id: ProviderId): CircuitBreaker {
+  let breaker = breakers.get(id);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    breakers.set(id, breaker);
+  }
+  return breaker;
+}
 
-const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-3-flash-preview:generateContent';
+// One key pool per provider, so rate-limited keys stay benched between assessments
+const keyPools = new Map<ProviderId, KeyPool>();
 
-interface GeminiResponse {
-  candidates: Array<{
-    content: {
-      parts: Array<{
-        text: string;
-      }>;
-    };
-  }>;
+function getKeyPool(id: ProviderId): KeyPool {
+  let pool = keyPools.get(id);
+  if (!pool) {
+    pool = new KeyPool();
+    keyPools.set(id, pool);
+  }
+  return pool;
+}
+
+// Make a call with the first usable key, moving on to the next key whenever one is rate limited.
+// Providers without keys are called once with null.
+async function callWithKeyRotation<T>(
+  pool: KeyPool,
+  keys: ApiKeyEntry[],
+  call: (apiKey: string | null) => Promise<T>
+): Promise<T> {
+  if (keys.length === 0) {
+    return call(null);
+  }
+
+  const usable = pool.available(keys);
+  for (const [index, entry] of usable.entries()) {
+    try {
+      return await call(entry.key);
+    } catch (error) {
+      if (!(error instanceof ProviderError) || error.message !== 'RATE_LIMIT') {
+        throw error;
+      }
+      // Nothing left to rotate to: keep the key in the pool and let the retry policy back off
+      if (index === usable.length - 1) {
+        throw error;
+      }
+      pool.coolDown(entry, error.retryAfterMs);
+    }
+  }
+
+  // Every key is cooling down; the retry policy waits for the first one if that is soon enough
+  throw new ProviderError('RATE_LIMIT', 429, pool.nextAvailableIn(keys));
 }
 
-// Assess prompt using Gemini 3 Flash Preview
+export interface AssessOptions {
+  conversation?: ConversationTurn[]; // Earlier turns of the thread, already windowed
+  rubric?: string; // Rubric template body; the built-in rubric when omitted
+  platform?: string;
+  glossary?: GlossaryEntry[];
+  onRetry?: (progress: RetryProgress) => void;
+  onPartial?: (partial: PartialAssessment) => void; // Enables streaming when the provider supports it
+  signal?: AbortSignal;
+}
+
+// Assess prompt using the given provider
 export async function assessPrompt(
+  provider: AssessmentProvider,
   promptText: string,
-  language: Language
+  language: Language,
+  options: AssessOptions = {}
 ): Promise<Assessment> {
-  // Get API key
-  const apiKey = await getApiKey();
+  // Get provider config and API key
+  const settings = await getSettings();
+  const config = settings.providerConfigs[provider.id];
+
+  // Build grader instructions and delimited user content as separate parts
+  const conversation = options.conversation ?? [];
+  const { instructions, userContent } = buildAssessmentRequest(promptText, language, {
+    conversation,
+    rubric: options.rubric,
+    platform: options.platform,
+    glossary: options.glossary,
+  });
+  const manipulationFlags = detectGraderManipulation(promptText);
+
+  // Reuse a cached result for the same (or nearly the same) prompt in the same thread,
+  // graded with the same rendered rubric
+  const conversationId = conversation.length > 0 ? hashText(JSON.stringify(conversation)) : 'none';
+  const rubricId = `${RUBRIC_VERSION}:${provider.id}:${config.model}:${hashText(instructions)}:${conversationId}`;
+  const cached = await getCachedAssessment(promptText, language, rubricId);
+  if (cached) {
+    // Thresholds may have changed since the result was cached; a fresh timestamp makes the
+    // panel treat the hit as a new result (e.g. resets clarifying question answers).
+    // A near-duplicate hit may differ in exactly the text that raises a flag, so flags
+    // always come from the current prompt.
+    const { manipulationFlags: _cachedFlags, ...rest } = cached;
+    return {
+      ...rest,
+      score: deriveScoreLevel(cached.overallScore, settings.scoreThresholds),
+      timestamp: Date.now(),
+      ...(manipulationFlags.length > 0 && { manipulationFlags }),
+    };
+  }
+
+  const apiKeys = await getApiKeys(provider.id);
 
-  if (!apiKey) {
+  if (provider.requiresApiKey && apiKeys.length === 0) {
     throw new Error('NO_API_KEY');
   }
 
-  // Build assessment prompt
-  const systemPrompt = buildAssessmentPrompt(promptText, language);
+  // Fail fast while the provider keeps failing
+  const breaker = getBreaker(provider.id);
+  if (!breaker.canRequest()) {
+    throw new Error('SERVICE_UNAVAILABLE');
+  }
 
   try {
-    console.log('[API Service] ===== STARTING API CALL =====');
-    console.log('[API Service] Timestamp:', new Date().toISOString());
-    console.log('[API Service] Model URL:', GEMINI_API_URL);
-    console.log('[API Service] API key (first 10 chars):', apiKey.substring(0, 10) + '...');
-    console.log('[API Service] Prompt length:', promptText.length);
-    console.log('[API Service] Language:', language);
-
-    const response = await fetch(`${GEMINI_API_URL}?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: systemPrompt,
-              },
-            ],
-          },
-        ],
-        generationConfig: {
-          temperature: 0.3,
-          responseMimeType: 'application/json',
-        },
-      }),
+    log.info('Calling provider:', {
+      provider: provider.name,
+      model: config.model,
+      generation: settings.generation,
+      promptLength: promptText.length,
+      language,
     });
-
-    console.log('[API Service] Response received');
-    console.log('[API Service] Response status:', response.status);
-    console.log('[API Service] Response status text:', response.statusText);
-    console.log('[API Service] Response headers:', Object.fromEntries(response.headers.entries()));
-
-    if (!response.ok) {
-      console.error('[API Service] ===== API ERROR =====');
-      console.error('[API Service] Status:', response.status);
-      console.error('[API Service] Status text:', response.statusText);
-
-      // Try to get error body
-      try {
-        const errorBody = await response.text();
-        console.error('[API Service] Error body:', errorBody);
-      } catch (e) {
-        console.error('[API Service] Could not read error body');
+    const callStart = Date.now();
+
+    const { onPartial } = options;
+    let usage: TokenUsage | null = null;
+    const keyPool = getKeyPool(provider.id);
+    const text = await withRetry(
+      (signal) =>
+        callWithKeyRotation(keyPool, apiKeys, (apiKey) => {
+          const request = {
+            instructions,
+            userContent,
+            apiKey,
+            config,
+            generation: settings.generation,
+            signal,
+            onUsage: (reported: TokenUsage) => {
+              usage = reported;
+            },
+          };
+          if (provider.stream && onPartial) {
+            return provider.stream(request, (textSoFar) =>
+              onPartial(parsePartialAssessment(textSoFar, settings.scoreThresholds))
+            );
+          }
+          return provider.complete(request);
+        }),
+      {
+        timeoutMs: settings.timeoutMs,
+        maxAttempts: settings.maxRetries + 1,
+        baseDelayMs: BASE_DELAY_MS,
+        maxDelayMs: MAX_DELAY_MS,
+        signal: options.signal,
+        onRetry: (attempt, maxAttempts) => options.onRetry?.({ attempt, maxAttempts }),
       }
+    );
+    breaker.recordSuccess();
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error('INVALID_API_KEY');
-      } else if (response.status === 429) {
-        throw new Error('RATE_LIMIT');
-      } else {
-        throw new Error(`API_ERROR: ${response.statusText}`);
-      }
+    if (usage) {
+      await recordUsage(provider.id, config.model, usage);
     }
 
-    const data: GeminiResponse = await response.json();
-
-    console.log('[API Service] ===== GEMINI RESPONSE =====');
-    console.log('[API Service] Full response:', JSON.stringify(data, null, 2));
+    log.latency(`${provider.name} ${config.model}`, Date.now() - callStart);
+    log.debug('Model response:', { text });
 
     // Parse response
-    const result = parseGeminiResponse(data);
-
-    return {
+    const result = parseAssessmentText(text);
+    const assessment: Assessment = {
       ...result,
+      score: deriveScoreLevel(result.overallScore, settings.scoreThresholds),
+      ...(manipulationFlags.length > 0 && { manipulationFlags }),
       timestamp: Date.now(),
     };
+
+    await cacheAssessment(promptText, language, rubricId, assessment);
+    return assessment;
   } catch (error) {
-    console.error('[API Service] Error:', error);
+    log.error('Assessment request failed:', error);
+
+    // Only transport failures count towards opening the circuit; a rate limit means the
+    // provider is up, and the key pool already benches the limited keys
+    const rateLimited = error instanceof ProviderError && error.message === 'RATE_LIMIT';
+    if (isRetryable(error) && !rateLimited) {
+      breaker.recordFailure();
+    } else {
+      breaker.releaseTrial();
+    }
 
     if (error instanceof Error) {
-      if (
-        error.message === 'NO_API_KEY' ||
-        error.message === 'INVALID_API_KEY' ||
-        error.message === 'RATE_LIMIT'
-      ) {
+      if (KNOWN_ERRORS.includes(error.message)) {
         throw error;
       }
 
-      // Log the actual error message for debugging
-      console.error('[API Service] Error message:', error.message);
-      console.error('[API Service] Error stack:', error.stack);
+      // Stack for debugging; the message was logged above
+      log.debug('Error stack:', error.stack);
     }
 
-    // Network or other error
-    throw new Error('NETWORK_ERROR');
-  }
-}
-
-// Build assessment prompt for Gemini
-function buildAssessmentPrompt(promptText: string, language: Language): string {
-  const languageName = language === 'zh' ? 'Chinese' : 'English';
-
-  return `You are an experienced and patient mentor to teach people how to properly write a prompt. Assess the following prompt for quality. Rate it as RED (severely lack context), ORANGE (insufficient context, might cause misunderstanding), or GREEN (rich information).
-
-User prompt: "${promptText}"
-
-Respond in ${languageName} with JSON only. No code fences, no extra text. You should strictly stick to this format:
-{
-  "score": "red" | "orange" | "green",
-  "explanation": "Brief explanation of what might create misunderstanding (1-2 sentences max)",
-  "missingContext": ["item1", "item2"]
-}
-
-Criteria:
-- RED: Missing critical context, ambiguous intent, or unclear requirements
-- ORANGE: Has some context but could be improved with more specifics
-- GREEN: Clear intent, sufficient context, well-structured
-
-Communication style: 
-Keep the explanation concise while instructional. On top of explaining the reasons, also tell the prompter how the model might interpret the curremt prompt wrongly. With each missing context, add a concise reason of why this would help.
-If the assessment is green (aka.perfect), you don't need to offer any missing context, just leave it blank and tell user that the prompt is ready to go.`;
+    // Any other HTTP error points at the configuration (e.g. a retired model), not the network
+    if (error instanceof ProviderError && error.status !== undefined) {
+      throw new Error(error.status === 404 ? 'MODEL_NOT_AVAILABLE' : 'API_ERROR');
+    }
 
+    // fetch rejects with a TypeError when the connection fails
+    throw new Error(error instanceof TypeError ? 'NETWORK_ERROR' : 'UNKNOWN_ERROR');
+  }
 }
 
-// Parse Gemini's JSON response
-function parseGeminiResponse(data: GeminiResponse): Omit<Assessment, 'timestamp'> {
-  console.log('[API Service] ===== PARSING RESPONSE =====');
+// Parse the model's JSON reply and validate it against the assessment schema
+function parseAssessmentText(text: string): ModelAssessment {
+  log.debug('Parsing response:', { text });
 
+  let parsed: unknown;
   try {
-    console.log('[API Service] Candidates count:', data.candidates?.length || 0);
-    console.log('[API Service] First candidate:', JSON.stringify(data.candidates?.[0], null, 2));
-
-    const text = data.candidates[0]?.content?.parts[0]?.text || '';
-
-    console.log('[API Service] Raw text from Gemini (length=' + text.length + '):');
-    console.log('[API Service]', text);
-
-    // Extract JSON from response (Gemini might wrap it in markdown)
-    let jsonText = text.trim();
-    if (jsonText.startsWith('```')) {
-      jsonText = jsonText.replace(/^```[a-zA-Z]*\s*/, '').replace(/```$/, '').trim();
-    }
-
-    if (!jsonText.startsWith('{') || !jsonText.endsWith('}')) {
-      const start = jsonText.indexOf('{');
-      const end = jsonText.lastIndexOf('}');
-      if (start >= 0 && end > start) {
-        jsonText = jsonText.slice(start, end + 1);
-      }
-    }
-
-    console.log('[API Service] JSON extraction result:', jsonText ? 'FOUND' : 'NO MATCH');
-    console.log('[API Service] Extracted JSON:', jsonText);
-
-    if (!jsonText) {
-      console.error('[API Service] ===== NO JSON FOUND =====');
-      console.error('[API Service] Full text was:', text);
-      throw new Error('No JSON found in response');
-    }
-
-    const parsed = JSON.parse(jsonText);
-
-    console.log('[API Service] Successfully parsed JSON');
-    console.log('[API Service] Parsed object:', JSON.stringify(parsed, null, 2));
-    console.log('[API Service] Score:', parsed.score);
-    console.log('[API Service] Explanation:', parsed.explanation);
-    console.log('[API Service] Missing context:', parsed.missingContext);
-
-    const rawMissingContext =
-      parsed.missingContext ??
-      parsed['More Context to be provided'] ??
-      parsed.moreContext ??
-      parsed.more_context ??
-      [];
-
-    return {
-      score: typeof parsed.score === 'string' ? parsed.score.toLowerCase() : parsed.score,
-      explanation: typeof parsed.explanation === 'string' ? parsed.explanation : '',
-      missingContext: Array.isArray(rawMissingContext)
-        ? rawMissingContext
-        : typeof rawMissingContext === 'string'
-          ? [rawMissingContext]
-          : [],
-    };
+    parsed = JSON.parse(text);
   } catch (error) {
-    console.error('[API Service] ===== PARSING FAILED =====');
-    console.error('[API Service] Error type:', error instanceof Error ? error.constructor.name : typeof error);
-    console.error('[API Service] Error message:', error instanceof Error ? error.message : String(error));
-    console.error('[API Service] Error stack:', error instanceof Error ? error.stack : 'N/A');
-
-    // Fallback response
-    return {
-      score: 'orange',
-      explanation: 'Unable to parse assessment. Please try again.',
-      missingContext: [],
-    };
+    log.error('Parsing failed:', error);
+    throw new Error('PARSE_FAILED');
   }
+
+  return validateAssessment(parsed);
 }
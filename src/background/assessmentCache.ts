@@ -0,0 +1,105 @@
+import type { Assessment, Language } from '@/shared/types';
+import { levenshteinDistance } from '@/utils/textDistance';
+import { createLogger } from '@/shared/logger';
+
+const log = createLogger('Assessment Cache');
+
+// Assessment result cache in chrome.storage.local, keyed by normalized prompt + language + rubric
+
+const CACHE_STORAGE_KEY = 'assessmentCache';
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const CACHE_MAX_ENTRIES = 50;
+const NEAR_DUPLICATE_THRESHOLD = 0.05; // Reuse results for edits under 5% of the text
+
+interface CacheEntry {
+  scope: string; // language + rubric; results never cross scopes
+  text: string; // Normalized prompt text
+  assessment: Assessment;
+  cachedAt: number;
+}
+
+// Short stable hash (djb2) used to scope cache entries to a conversation
+export function hashText(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// Collapse whitespace and case so trivial edits hit the same entry
+export function normalizePromptText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function getScope(language: Language, rubricId: string): string {
+  return `${language}|${rubricId}`;
+}
+
+async function loadEntries(): Promise<CacheEntry[]> {
+  const result = await chrome.storage.local.get([CACHE_STORAGE_KEY]);
+  const entries: CacheEntry[] = result[CACHE_STORAGE_KEY] || [];
+  const now = Date.now();
+
+  // Drop expired entries on every read
+  return entries.filter((entry) => now - entry.cachedAt < CACHE_TTL_MS);
+}
+
+// Look up an exact or near-duplicate cached assessment
+export async function getCachedAssessment(
+  promptText: string,
+  language: Language,
+  rubricId: string
+): Promise<Assessment | null> {
+  const scope = getScope(language, rubricId);
+  const text = normalizePromptText(promptText);
+  const candidates = (await loadEntries()).filter((entry) => entry.scope === scope);
+
+  const exact = candidates.find((entry) => entry.text === text);
+  if (exact) {
+    log.info('Exact hit');
+    return exact.assessment;
+  }
+
+  for (const entry of candidates) {
+    // Cheap length check before the quadratic edit distance, which then stops as soon as
+    // the edits exceed the threshold
+    const maxEdits = Math.floor(Math.max(entry.text.length, text.length) * NEAR_DUPLICATE_THRESHOLD);
+    if (Math.abs(entry.text.length - text.length) > maxEdits) {
+      continue;
+    }
+
+    if (levenshteinDistance(text, entry.text, maxEdits) <= maxEdits) {
+      log.info('Near-duplicate hit');
+      // The rewrite was written for the other text; applying it would undo the user's edits
+      return { ...entry.assessment, improvedPrompt: '' };
+    }
+  }
+
+  return null;
+}
+
+// Store an assessment, evicting the oldest entries beyond the size limit
+export async function cacheAssessment(
+  promptText: string,
+  language: Language,
+  rubricId: string,
+  assessment: Assessment
+): Promise<void> {
+  const scope = getScope(language, rubricId);
+  const text = normalizePromptText(promptText);
+  const entries = (await loadEntries()).filter(
+    (entry) => !(entry.scope === scope && entry.text === text)
+  );
+
+  entries.push({ scope, text, assessment, cachedAt: Date.now() });
+
+  await chrome.storage.local.set({
+    [CACHE_STORAGE_KEY]: entries.slice(-CACHE_MAX_ENTRIES),
+  });
+}
+
+// Remove all cached assessments
+export async function clearAssessmentCache(): Promise<void> {
+  await chrome.storage.local.remove([CACHE_STORAGE_KEY]);
+}
@@ -0,0 +1,142 @@
+import type { Assessment, DimensionScores, PartialAssessment, ScoreThresholds } from '@/shared/types';
+import { SCORE_DIMENSIONS, deriveScoreLevel } from '@/shared/scoring';
+import { createLogger } from '@/shared/logger';
+
+const log = createLogger('Assessment Schema');
+
+// Fields the model produces; the red/orange/green level is derived locally from overallScore
+export type ModelAssessment = Pick<
+  Assessment,
+  'overallScore' | 'dimensions' | 'explanation' | 'missingContext' | 'improvedPrompt'
+>;
+
+const SCORE_PROPERTY = { type: 'INTEGER', minimum: 0, maximum: 100 };
+
+// Gemini responseSchema (OpenAPI subset) for the assessment JSON
+export const GEMINI_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    overallScore: SCORE_PROPERTY,
+    dimensions: {
+      type: 'OBJECT',
+      properties: Object.fromEntries(SCORE_DIMENSIONS.map((dimension) => [dimension, SCORE_PROPERTY])),
+      required: SCORE_DIMENSIONS,
+      propertyOrdering: SCORE_DIMENSIONS,
+    },
+    explanation: {
+      type: 'STRING',
+    },
+    missingContext: {
+      type: 'ARRAY',
+      items: { type: 'STRING' },
+    },
+    improvedPrompt: {
+      type: 'STRING',
+    },
+  },
+  required: ['overallScore', 'dimensions', 'explanation', 'missingContext', 'improvedPrompt'],
+  propertyOrdering: ['overallScore', 'dimensions', 'explanation', 'missingContext', 'improvedPrompt'],
+};
+
+function isScore(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+}
+
+// Runtime validator for the assessment shape; throws PARSE_FAILED on any mismatch
+export function validateAssessment(value: unknown): ModelAssessment {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw parseError('response is not a JSON object');
+  }
+
+  const { overallScore, dimensions, explanation, missingContext, improvedPrompt } = value as Record<
+    string,
+    unknown
+  >;
+
+  if (!isScore(overallScore)) {
+    throw parseError(`invalid overallScore ${JSON.stringify(overallScore)}`);
+  }
+
+  if (typeof dimensions !== 'object' || dimensions === null) {
+    throw parseError('dimensions must be an object');
+  }
+
+  const dimensionScores = {} as DimensionScores;
+  for (const dimension of SCORE_DIMENSIONS) {
+    const dimensionScore = (dimensions as Record<string, unknown>)[dimension];
+    if (!isScore(dimensionScore)) {
+      throw parseError(`invalid ${dimension} score ${JSON.stringify(dimensionScore)}`);
+    }
+    dimensionScores[dimension] = Math.round(dimensionScore);
+  }
+
+  if (typeof explanation !== 'string') {
+    throw parseError('explanation must be a string');
+  }
+
+  if (!Array.isArray(missingContext) || !missingContext.every((item) => typeof item === 'string')) {
+    throw parseError('missingContext must be an array of strings');
+  }
+
+  if (typeof improvedPrompt !== 'string') {
+    throw parseError('improvedPrompt must be a string');
+  }
+
+  return {
+    overallScore: Math.round(overallScore),
+    dimensions: dimensionScores,
+    explanation,
+    missingContext,
+    improvedPrompt,
+  };
+}
+
+function parseError(reason: string): Error {
+  log.error('Validation failed:', reason);
+  return new Error('PARSE_FAILED');
+}
+
+// Best-effort view of an assessment whose JSON is still streaming in. Relies on the
+// schema's property ordering: overall score first, then dimensions, explanation, missingContext.
+// The rewrite is only shown once complete, so improvedPrompt is not streamed.
+export function parsePartialAssessment(text: string, thresholds: ScoreThresholds): PartialAssessment {
+  const partial: PartialAssessment = {};
+
+  // A number only counts once its terminator has arrived ("8" may become "85")
+  const overallMatch = text.match(/"overallScore"\s*:\s*(\d+)\s*[,}]/);
+  if (overallMatch) {
+    partial.overallScore = Number(overallMatch[1]);
+    partial.score = deriveScoreLevel(partial.overallScore, thresholds);
+  }
+
+  for (const dimension of SCORE_DIMENSIONS) {
+    const dimensionMatch = text.match(new RegExp(`"${dimension}"\\s*:\\s*(\\d+)\\s*[,}]`));
+    if (dimensionMatch) {
+      partial.dimensions = { ...partial.dimensions, [dimension]: Number(dimensionMatch[1]) };
+    }
+  }
+
+  const explanationMatch = text.match(/"explanation"\s*:\s*"((?:[^"\\]|\\.)*)/);
+  if (explanationMatch) {
+    partial.explanation = decodeJsonString(explanationMatch[1]);
+  }
+
+  const missingMatch = text.match(/"missingContext"\s*:\s*\[((?:\s*"(?:[^"\\]|\\.)*"\s*,?)*)/);
+  if (missingMatch) {
+    // Only complete string items; the one being streamed shows up on a later chunk
+    const items = missingMatch[1].match(/"(?:[^"\\]|\\.)*"/g) || [];
+    partial.missingContext = items.map((item) => decodeJsonString(item.slice(1, -1)));
+  }
+
+  return partial;
+}
+
+// Decode a (possibly truncated) JSON string body, dropping an incomplete trailing escape
+function decodeJsonString(body: string): string {
+  const safe = body.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+  try {
+    return JSON.parse(`"${safe}"`);
+  } catch (error) {
+    return safe;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Circuit Breaker - Fails fast after repeated transport failures so a flaky
+ * API doesn't leave every assessment hanging until its timeout
+ */
+
+import { createLogger } from '@/shared/logger';
+
+const log = createLogger('CircuitBreaker');
+
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private cooldownPeriod: number;
+  private consecutiveFailures: number = 0;
+  private openedAt: number | null = null;
+  private trialInFlight: boolean = false;
+
+  constructor(failureThreshold: number = 3, cooldownPeriod: number = 60000) {
+    this.failureThreshold = failureThreshold;
+    this.cooldownPeriod = cooldownPeriod;
+  }
+
+  /**
+   * Whether a request may go through. After the cooldown the circuit is
+   * half-open: one trial request is allowed and its outcome decides.
+   */
+  public canRequest(): boolean {
+    if (this.openedAt === null) {
+      return true;
+    }
+    if (this.trialInFlight || Date.now() - this.openedAt < this.cooldownPeriod) {
+      return false;
+    }
+    this.trialInFlight = true;
+    log.info('Half-open, allowing a trial request');
+    return true;
+  }
+
+  /**
+   * Close the circuit after a successful call
+   */
+  public recordSuccess() {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Let another request be the trial when this one ended without telling
+   * whether the provider has recovered (cancelled, or rejected for another reason)
+   */
+  public releaseTrial() {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Count a failure and open (or re-open) the circuit at the threshold
+   */
+  public recordFailure() {
+    this.trialInFlight = false;
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      log.info(`Open after ${this.consecutiveFailures} consecutive failures`);
+    }
+  }
+}
@@ -1,63 +1,219 @@
 import { assessPrompt } from './apiService';
-import type { Message, Assessment } from '@/shared/types';
+import { getProvider, ProviderError } from './providers';
+import { getSettings } from '@/shared/storage';
+import { PORT_NAME } from '@/shared/messages';
+import { buildConversationWindow } from '@/utils/conversationWindow';
+import { assessOffline } from './offlineAssessor';
+import { resolveRubricTemplate } from '@/shared/rubrics';
+import { pullSyncedSettings, seedSyncedSettings, isSyncChange } from '@/shared/settingsSync';
+import { runMigrations } from '@/shared/migrations';
+import { AUTO_LOCK_ALARM, refreshAutoLock } from '@/shared/vault';
+import { createLogger } from '@/shared/logger';
+import type { Message, MessageType, PromptContext, ProviderConfig, ProviderId } from '@/shared/types';
+
+const log = createLogger('Background');
 
 // Background service worker
-console.log('[Snap] Background service worker initialized');
-console.log('[Snap] Timestamp:', new Date().toISOString());
-
-// Listen for messages from content script
-chrome.runtime.onMessage.addListener((message: Message, _sender, sendResponse) => {
-  console.log('[Background] ===== NEW REQUEST =====');
-  console.log('[Background] Timestamp:', new Date().toISOString());
-  console.log('[Background] Message type:', message.type);
-  console.log('[Background] Full message:', JSON.stringify(message, null, 2));
-
-  // Handle different message types
-  switch (message.type) {
-    case 'ASSESS_PROMPT':
-      handleAssessment(message.payload, sendResponse);
-      return true; // Keep message channel open for async response
-
-    default:
-      console.log('[Background] Unknown message type:', message.type);
-      sendResponse({ error: 'Unknown message type' });
-      return false;
+log.info('Service worker initialized');
+
+type Reply = (type: MessageType, payload: unknown) => void;
+
+// Migrate stored data on install, update and browser startup. The worker also restarts
+// after going idle, so the chained run below covers wake-ups; repeated calls are no-ops.
+chrome.runtime.onInstalled.addListener((details) => {
+  log.info('Installed:', details.reason);
+  runMigrations();
+});
+chrome.runtime.onStartup.addListener(() => {
+  runMigrations();
+});
+
+// Bring in preferences changed on other devices, then share any this device never has
+runMigrations()
+  .then(pullSyncedSettings)
+  .then(seedSyncedSettings)
+  .catch((error) => log.error('Settings sync failed:', error));
+
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === 'sync' && isSyncChange(changes)) {
+    pullSyncedSettings().catch((error) => log.error('Settings sync failed:', error));
   }
 });
 
-// Handle assessment request
+// Lock the passphrase vault once it has sat idle for the auto-lock timeout
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === AUTO_LOCK_ALARM) {
+    refreshAutoLock().catch((error) => log.error('Vault auto-lock failed:', error));
+  }
+});
+
+// Listen for port connections from content scripts and the popup
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== PORT_NAME) return;
+
+  // In-flight assessment on this port; a newer ASSESS_PROMPT aborts the older one
+  let inFlight: { requestId?: string; controller: AbortController } | null = null;
+  let connected = true;
+
+  port.onDisconnect.addListener(() => {
+    connected = false;
+    inFlight?.controller.abort();
+  });
+
+  port.onMessage.addListener((message: Message) => {
+    log.info('Message:', message.type, message.requestId);
+    log.debug('Payload:', message.payload);
+
+    const reply: Reply = (type, payload) => {
+      if (!connected) return;
+      const response: Message = { type, payload, requestId: message.requestId };
+      port.postMessage(response);
+    };
+
+    // Handle different message types
+    switch (message.type) {
+      case 'ASSESS_PROMPT': {
+        if (inFlight) {
+          log.info('Superseding request:', inFlight.requestId);
+          inFlight.controller.abort();
+        }
+
+        const controller = new AbortController();
+        inFlight = { requestId: message.requestId, controller };
+
+        handleAssessment(message.payload, reply, controller.signal).finally(() => {
+          if (inFlight?.controller === controller) {
+            inFlight = null;
+          }
+        });
+        break;
+      }
+
+      case 'CHECK_PROVIDER':
+        handleHealthCheck(message.payload, reply);
+        break;
+
+      case 'VALIDATE_KEY':
+        handleKeyValidation(message.payload, reply);
+        break;
+
+      default:
+        log.info('Unknown message type:', message.type);
+        reply('ERROR', { error: 'Unknown message type' });
+    }
+  });
+});
+
+// Errors after which the rule-based assessor stands in for the model: no key, or a provider
+// out of reach. Errors the user can fix (a stopped local server, a bad model name) are shown.
+const OFFLINE_FALLBACK_ERRORS = ['NO_API_KEY', 'NETWORK_ERROR', 'TIMEOUT'];
+
+// Handle assessment request, streaming partial results back over the port
 async function handleAssessment(
-  payload: { promptText: string; language: 'en' | 'zh' },
-  sendResponse: (response: Assessment | { error: string }) => void
+  payload: { promptText: string; language: 'en' | 'zh' } & PromptContext,
+  reply: Reply,
+  signal: AbortSignal
 ) {
   const startTime = Date.now();
-  console.log('[Background] Starting assessment at:', new Date().toISOString());
-  console.log('[Background] Prompt length:', payload.promptText.length);
-  console.log('[Background] Language:', payload.language);
+  log.info('Starting assessment:', {
+    promptLength: payload.promptText.length,
+    language: payload.language,
+    conversationTurns: payload.conversation?.length ?? 0,
+  });
 
   try {
-    const assessment = await assessPrompt(payload.promptText, payload.language);
+    // Dispatch to the provider selected in settings
+    const settings = await getSettings();
+    const provider = getProvider(settings.provider);
+    log.info('Provider:', provider.name);
+
+    // A site rule wins over the default rubric template
+    const rubric = resolveRubricTemplate(settings, payload.host);
+    log.info('Rubric template:', rubric.name);
+
+    const assessment = await assessPrompt(provider, payload.promptText, payload.language, {
+      signal,
+      // Re-apply the window bounds; the payload comes from page-controlled DOM
+      conversation: buildConversationWindow(payload.conversation ?? []),
+      rubric: rubric.body,
+      platform: payload.platform,
+      glossary: settings.glossary,
+      // Let the panel show "retrying (2/3)" while we back off
+      onRetry: (progress) => {
+        log.info(`Retrying (${progress.attempt}/${progress.maxAttempts})`);
+        reply('ASSESSMENT_PROGRESS', progress);
+      },
+      onPartial: (partial) => reply('ASSESSMENT_PARTIAL', partial),
+    });
 
-    const duration = Date.now() - startTime;
-    console.log('[Background] Assessment complete in', duration, 'ms');
-    console.log('[Background] Assessment result:', JSON.stringify(assessment, null, 2));
+    log.latency(`Assessment via ${provider.name}`, Date.now() - startTime);
+    log.debug('Assessment result:', assessment);
 
-    sendResponse(assessment);
+    reply('ASSESSMENT_RESULT', assessment);
   } catch (error) {
-    const duration = Date.now() - startTime;
-    console.error('[Background] ===== ASSESSMENT FAILED =====');
-    console.error('[Background] Failed after', duration, 'ms');
-    console.error('[Background] Error type:', error instanceof Error ? error.constructor.name : typeof error);
-    console.error('[Background] Error message:', error instanceof Error ? error.message : String(error));
-    console.error('[Background] Error stack:', error instanceof Error ? error.stack : 'N/A');
+    log.error(`Assessment failed after ${Date.now() - startTime} ms:`, error);
 
     const errorMessage = error instanceof Error ? error.message : 'UNKNOWN_ERROR';
 
-    sendResponse({
+    // Give the user a rough result instead of nothing when the model is out of reach
+    if (OFFLINE_FALLBACK_ERRORS.includes(errorMessage) && !signal.aborted) {
+      log.info('Falling back to offline assessment after', errorMessage);
+      const { scoreThresholds } = await getSettings();
+      reply('ASSESSMENT_RESULT', assessOffline(payload.promptText, payload.language, scoreThresholds));
+      return;
+    }
+
+    reply('ERROR', {
       error: errorMessage,
     });
   }
 }
 
-console.log('[Snap] Background service worker ready');
-console.log('[Snap] Ready at:', new Date().toISOString());
+// Handle provider health check request (from popup)
+async function handleHealthCheck(
+  payload: { provider: ProviderId; config: ProviderConfig },
+  reply: Reply
+) {
+  const provider = getProvider(payload.provider);
+  log.info('Health check for provider:', provider.name);
+
+  try {
+    await provider.checkHealth?.(payload.config);
+    reply('PROVIDER_STATUS', { ok: true });
+  } catch (error) {
+    log.error('Health check failed:', error);
+    reply('ERROR', {
+      error: error instanceof Error ? error.message : 'UNKNOWN_ERROR',
+    });
+  }
+}
+
+// Key checks are one cheap request, so they get a short fixed timeout
+const KEY_VALIDATION_TIMEOUT_MS = 10000;
+const KEY_VALIDATION_ERRORS = ['INVALID_API_KEY', 'RATE_LIMIT', 'MODEL_NOT_AVAILABLE'];
+
+// Handle API key validation request (from popup)
+async function handleKeyValidation(
+  payload: { provider: ProviderId; apiKey: string; config: ProviderConfig },
+  reply: Reply
+) {
+  const provider = getProvider(payload.provider);
+  log.info('Validating key for provider:', provider.name);
+
+  try {
+    await provider.validateKey?.(payload.apiKey, payload.config, AbortSignal.timeout(KEY_VALIDATION_TIMEOUT_MS));
+    reply('KEY_STATUS', { ok: true });
+  } catch (error) {
+    log.error('Key validation failed:', error);
+    const code = error instanceof Error ? error.message : 'UNKNOWN_ERROR';
+    let reported = code;
+    if (!KEY_VALIDATION_ERRORS.includes(code)) {
+      // Other HTTP errors (e.g. a malformed model name) point at the config, not the key;
+      // timeouts and dropped connections mean "couldn't check"
+      reported = error instanceof ProviderError && error.status !== undefined ? 'API_ERROR' : 'NETWORK_ERROR';
+    }
+    reply('ERROR', { error: reported });
+  }
+}
+
+log.info('Service worker ready');
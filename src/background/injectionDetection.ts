@@ -0,0 +1,50 @@
+import type { ManipulationFlag } from '@/shared/types';
+import { createLogger } from '@/shared/logger';
+import { SCORE_DIMENSIONS } from '@/shared/scoring';
+import { DELIMITER_TAG } from './assessmentPrompt';
+
+const log = createLogger('Injection Detection');
+
+// Heuristic pass that flags prompts which appear to address the grader rather than
+// the chatbot they are written for. Flags are shown next to the score; they do not
+// change it.
+
+const PATTERNS: Array<{ flag: ManipulationFlag; pattern: RegExp }> = [
+  {
+    flag: 'instruction_override',
+    pattern: /\b(ignore|disregard|forget|override)\b.{0,40}\b(previous|prior|above|earlier|all|system)\b.{0,20}\b(instructions?|rules?|prompts?|criteria)\b/i,
+  },
+  { flag: 'instruction_override', pattern: /(忽略|无视|忘记).{0,10}(之前|以上|上面|所有|系统).{0,6}(指令|说明|规则|提示)/ },
+  { flag: 'score_dictation', pattern: /\b(rate|score|grade|mark|classify)\b.{0,30}\b(green|perfect)\b/i },
+  { flag: 'score_dictation', pattern: /\b(respond|reply|answer|output|return)\b.{0,20}\bgreen\b/i },
+  { flag: 'score_dictation', pattern: /"score"\s*:\s*"(red|orange|green)"/i },
+  { flag: 'score_dictation', pattern: /"overall_?score"\s*:\s*"?\d/i },
+  {
+    flag: 'score_dictation',
+    pattern: new RegExp(`"dimensions"\\s*:\\s*\\{\\s*"(${SCORE_DIMENSIONS.join('|')})"\\s*:\\s*\\d`, 'i'),
+  },
+  { flag: 'score_dictation', pattern: /(评|打|给).{0,6}(绿色|满分|完美)/ },
+  {
+    flag: 'role_hijack',
+    pattern: /\b(you are( now)?|act as|pretend to be)\s+(an?|the)\s+(prompt\s+)?(grader|assessor|evaluator)\b/i,
+  },
+  { flag: 'delimiter_spoofing', pattern: DELIMITER_TAG },
+  { flag: 'delimiter_spoofing', pattern: /<\s*\/?\s*(system|instructions?)\b[^>]*>/i },
+];
+
+// Return the distinct manipulation flags raised by a prompt
+export function detectGraderManipulation(promptText: string): ManipulationFlag[] {
+  const flags = new Set<ManipulationFlag>();
+
+  for (const { flag, pattern } of PATTERNS) {
+    if (pattern.test(promptText)) {
+      flags.add(flag);
+    }
+  }
+
+  if (flags.size > 0) {
+    log.info('Suspected grader manipulation:', Array.from(flags));
+  }
+
+  return Array.from(flags);
+}
@@ -0,0 +1,45 @@
+/**
+ * Key Pool - Rotates through a provider's API keys, benching each key that
+ * hits a rate limit until its cool-down ends
+ */
+
+import type { ApiKeyEntry } from '@/shared/types';
+import { createLogger } from '@/shared/logger';
+
+const log = createLogger('KeyPool');
+
+export class KeyPool {
+  private defaultCooldown: number;
+  private coolingUntil = new Map<string, number>(); // Key id -> timestamp
+
+  /**
+   * Without a Retry-After, a key is benched about as long as one round of retry backoff
+   */
+  constructor(defaultCooldown: number = 10000) {
+    this.defaultCooldown = defaultCooldown;
+  }
+
+  /**
+   * Keys not cooling down, in the order the user saved them
+   */
+  public available(keys: ApiKeyEntry[]): ApiKeyEntry[] {
+    const now = Date.now();
+    return keys.filter((entry) => (this.coolingUntil.get(entry.id) ?? 0) <= now);
+  }
+
+  /**
+   * Milliseconds until the first of these keys comes off cool-down
+   */
+  public nextAvailableIn(keys: ApiKeyEntry[]): number {
+    const now = Date.now();
+    return Math.max(0, Math.min(...keys.map((entry) => (this.coolingUntil.get(entry.id) ?? 0) - now)));
+  }
+
+  /**
+   * Bench a key after a 429, for the server's Retry-After when it sent one
+   */
+  public coolDown(entry: ApiKeyEntry, durationMs: number = this.defaultCooldown) {
+    this.coolingUntil.set(entry.id, Date.now() + durationMs);
+    log.info(`Key "${entry.label || entry.id}" rate limited, cooling down for ${Math.round(durationMs / 1000)}s`);
+  }
+}
@@ -0,0 +1,141 @@
+import type { Assessment, DimensionScores, Language, ScoreDimension, ScoreThresholds } from '@/shared/types';
+import { SCORE_DIMENSIONS, deriveScoreLevel } from '@/shared/scoring';
+import { t } from '@/shared/i18n';
+import { detectGraderManipulation } from './injectionDetection';
+
+// Rule-based fallback used when no model can be reached (no API key or network failure).
+// Everything here is pure text inspection so it can run and be tested without a network.
+
+const GOAL_VERBS =
+  /\b(write|explain|create|summari[sz]e|translate|fix|debug|generate|list|compare|analy[sz]e|design|draft|review|refactor|rewrite|plan|describe|calculate|convert|suggest|outline|recommend|find)\b|(写|解释|创建|总结|翻译|修复|生成|列出|比较|分析|设计|起草|审查|重构|改写|规划|描述|计算|转换|建议|推荐|帮我)/i;
+
+const CONTEXT_MARKERS =
+  /\b(i am|i'm|i have|we have|my|our|because|background|currently|working on|given that|context)\b|(我是|我们|我的|因为|背景|目前|正在|由于)/i;
+
+const CONSTRAINT_MARKERS = [
+  /\b(must|should|only|avoid|without|at most|at least|no more than|limit|within|under \d+)\b/i,
+  /\b(don't|do not|never)\b/i,
+  /\d+\s*(words?|sentences?|paragraphs?|characters?|lines?|items?|minutes?)\b/i,
+  /(必须|应该|只|避免|不要|不能|至少|最多|以内|限制)/,
+  /\d+\s*(字|句|段|条|行|分钟)/,
+];
+
+const FORMAT_MARKERS =
+  /\b(format|table|list|bullet|json|markdown|csv|yaml|steps|outline|headings?|code block|numbered)\b|(表格|列表|格式|分点|步骤|大纲|标题|代码块)/i;
+
+const EXAMPLE_MARKERS = /\b(for example|e\.g\.|such as|like this|example|sample)\b|```|(例如|比如|示例|举例|样例)/i;
+
+const AUDIENCE_MARKERS =
+  /\b(audience|readers?|for (beginners|experts|students|children|kids|my (team|boss|manager|clients?|customers?))|non-technical|executives?)\b|(受众|读者|初学者|新手|专家|学生|孩子|面向|给.{0,6}(看|读))/i;
+
+// Prompts that lean on something the model cannot see, e.g. "fix it" or "这个怎么改"
+const VAGUE_START = /^\s*(it|this|that|they|them|these|those)\b|^\s*(这个|那个|它|这|那)/i;
+
+// Bare questions such as "why?" or "how does it work?"
+const SUBJECTLESS_QUESTION = /^\s*(why|how|what|when|where)\b[^?]{0,20}\?\s*$|^\s*(为什么|怎么|如何|怎么办|什么)[^？?]{0,6}[？?]?\s*$/i;
+
+// Relative weight of each dimension in the overall score
+const WEIGHTS: Record<ScoreDimension, number> = {
+  goalClarity: 0.25,
+  context: 0.25,
+  constraints: 0.15,
+  outputFormat: 0.15,
+  examples: 0.1,
+  audience: 0.1,
+};
+
+// Dimensions scoring below this are reported as missing context
+const MISSING_BELOW = 50;
+
+const MISSING_ITEMS: Record<Language, Record<ScoreDimension, { item: string; placeholder: string }>> = {
+  en: {
+    goalClarity: { item: 'Goal: what exactly the model should produce', placeholder: '[what you want produced]' },
+    context: { item: 'Background: the situation or material the model needs', placeholder: '[relevant background]' },
+    constraints: { item: 'Constraints: length, scope or things to avoid', placeholder: '[length, scope, things to avoid]' },
+    outputFormat: { item: 'Output format: how the answer should be structured', placeholder: '[expected output format]' },
+    examples: { item: 'Examples: a sample of the result you expect', placeholder: '[example of the expected result]' },
+    audience: { item: 'Target audience: who the answer is for', placeholder: '[target audience]' },
+  },
+  zh: {
+    goalClarity: { item: '目标：希望模型具体产出什么', placeholder: '[希望产出的内容]' },
+    context: { item: '背景：模型需要了解的情况或材料', placeholder: '[相关背景]' },
+    constraints: { item: '约束：篇幅、范围或需要避免的内容', placeholder: '[篇幅、范围、需避免的内容]' },
+    outputFormat: { item: '输出格式：回答应如何组织', placeholder: '[期望的输出格式]' },
+    examples: { item: '示例：期望结果的样例', placeholder: '[期望结果的示例]' },
+    audience: { item: '目标受众：回答是给谁看的', placeholder: '[目标受众]' },
+  },
+};
+
+// Rough word count that treats two CJK characters as one word
+function measureLength(text: string): number {
+  const cjkChars = (text.match(/[\u4e00-\u9fff]/g) || []).length;
+  const latinWords = text.replace(/[\u4e00-\u9fff]/g, ' ').split(/\s+/).filter(Boolean).length;
+  return latinWords + cjkChars / 2;
+}
+
+function clamp(score: number): number {
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+// Score each rubric dimension from surface features of the prompt
+export function scoreDimensions(promptText: string): DimensionScores {
+  const text = promptText.trim();
+  const length = measureLength(text);
+
+  let goalClarity = 30;
+  if (GOAL_VERBS.test(text)) goalClarity += 40;
+  if (length >= 8) goalClarity += 20;
+  if (VAGUE_START.test(text)) goalClarity -= 25;
+  if (SUBJECTLESS_QUESTION.test(text)) goalClarity -= 25;
+
+  let context = length < 8 ? 10 : length < 25 ? 35 : length < 60 ? 55 : 70;
+  if (CONTEXT_MARKERS.test(text)) context += 25;
+
+  const constraintHits = CONSTRAINT_MARKERS.filter((pattern) => pattern.test(text)).length;
+
+  return {
+    goalClarity: clamp(goalClarity),
+    context: clamp(context),
+    constraints: clamp(15 + constraintHits * 35),
+    outputFormat: FORMAT_MARKERS.test(text) ? 80 : 15,
+    examples: EXAMPLE_MARKERS.test(text) ? 80 : 15,
+    audience: AUDIENCE_MARKERS.test(text) ? 80 : 15,
+  };
+}
+
+// Build a complete assessment without calling any model
+export function assessOffline(promptText: string, language: Language, thresholds: ScoreThresholds): Assessment {
+  const dimensions = scoreDimensions(promptText);
+  const overallScore = clamp(SCORE_DIMENSIONS.reduce((sum, dim) => sum + dimensions[dim] * WEIGHTS[dim], 0));
+  const score = deriveScoreLevel(overallScore, thresholds);
+
+  const missing = SCORE_DIMENSIONS.filter((dim) => dimensions[dim] < MISSING_BELOW);
+  const items = MISSING_ITEMS[language];
+
+  const ranked = [...SCORE_DIMENSIONS].sort((a, b) => dimensions[b] - dimensions[a]);
+  const strongest = t(`dim_${ranked[0]}`, language);
+  const weakest = t(`dim_${ranked[ranked.length - 1]}`, language);
+  const explanation =
+    language === 'zh'
+      ? `离线估算，仅基于简单的文本规则。最强项：${strongest}；最弱项：${weakest}。`
+      : `Offline estimate based on simple text checks. Strongest: ${strongest}. Weakest: ${weakest}.`;
+
+  const improvedPrompt =
+    score === 'green' || missing.length === 0
+      ? promptText
+      : [promptText.trim(), '', ...missing.map((dim) => items[dim].placeholder)].join('\n');
+
+  const manipulationFlags = detectGraderManipulation(promptText);
+
+  return {
+    score,
+    overallScore,
+    dimensions,
+    explanation,
+    missingContext: missing.map((dim) => items[dim].item),
+    improvedPrompt,
+    ...(manipulationFlags.length > 0 && { manipulationFlags }),
+    offline: true,
+    timestamp: Date.now(),
+  };
+}
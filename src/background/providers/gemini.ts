@@ -0,0 +1,166 @@
+import type { GenerationConfig, TokenUsage } from '@/shared/types';
+import type { AssessmentProvider } from './index';
+import { joinUrl, throwForStatus, throwForModelLookup } from './index';
+import { GEMINI_RESPONSE_SCHEMA } from '../assessmentSchema';
+import { createLogger } from '@/shared/logger';
+
+const log = createLogger('Gemini Provider');
+
+interface GeminiResponse {
+  candidates: Array<{
+    content: {
+      parts: Array<{
+        text: string;
+      }>;
+    };
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number; // Billed as output
+  };
+}
+
+function buildRequestBody(instructions: string, userContent: string, generation: GenerationConfig): string {
+  return JSON.stringify({
+    systemInstruction: {
+      parts: [
+        {
+          text: instructions,
+        },
+      ],
+    },
+    contents: [
+      {
+        role: 'user',
+        parts: [
+          {
+            text: userContent,
+          },
+        ],
+      },
+    ],
+    generationConfig: {
+      temperature: generation.temperature,
+      ...(generation.maxOutputTokens !== null && { maxOutputTokens: generation.maxOutputTokens }),
+      ...(generation.thinkingBudget !== null && {
+        thinkingConfig: { thinkingBudget: generation.thinkingBudget },
+      }),
+      responseMimeType: 'application/json',
+      responseSchema: GEMINI_RESPONSE_SCHEMA,
+    },
+  });
+}
+
+function getCandidateText(data: GeminiResponse): string {
+  return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+}
+
+function getUsage(data: GeminiResponse): TokenUsage | null {
+  const usage = data.usageMetadata;
+  if (!usage) return null;
+
+  return {
+    promptTokens: usage.promptTokenCount ?? 0,
+    responseTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+  };
+}
+
+export const geminiProvider: AssessmentProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  requiresApiKey: true,
+
+  complete: async ({ instructions, userContent, apiKey, config, generation, signal, onUsage }) => {
+    const url = joinUrl(config.endpoint, `models/${config.model}:generateContent`);
+    log.debug('Model URL:', url);
+
+    const response = await fetch(`${url}?key=${apiKey}`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: buildRequestBody(instructions, userContent, generation),
+    });
+
+    log.debug('Response status:', response.status);
+    await throwForStatus(response, 'Gemini Provider');
+
+    const data: GeminiResponse = await response.json();
+    log.debug('Candidates count:', data.candidates?.length || 0);
+
+    const usage = getUsage(data);
+    if (usage) onUsage?.(usage);
+
+    return getCandidateText(data);
+  },
+
+  // streamGenerateContent with alt=sse: one "data: {...}" line per chunk
+  stream: async ({ instructions, userContent, apiKey, config, generation, signal, onUsage }, onText) => {
+    const url = joinUrl(config.endpoint, `models/${config.model}:streamGenerateContent`);
+    log.debug('Streaming URL:', url);
+
+    const response = await fetch(`${url}?alt=sse&key=${apiKey}`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: buildRequestBody(instructions, userContent, generation),
+    });
+
+    log.debug('Response status:', response.status);
+    await throwForStatus(response, 'Gemini Provider');
+
+    if (!response.body) {
+      throw new Error('STREAM_UNAVAILABLE');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let usage: TokenUsage | null = null;
+
+    // Each chunk carries running usage totals; the last one is final
+    const handleLine = (line: string) => {
+      if (!line.startsWith('data:')) return;
+
+      // Skip keep-alives and malformed chunks rather than failing the whole stream
+      let chunk: GeminiResponse;
+      try {
+        chunk = JSON.parse(line.slice(5));
+      } catch {
+        log.debug('Skipping unparseable stream line:', line);
+        return;
+      }
+      text += getCandidateText(chunk);
+      usage = getUsage(chunk) ?? usage;
+      onText(text);
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+
+    handleLine(buffer + decoder.decode());
+    if (usage) onUsage?.(usage);
+    return text;
+  },
+
+  // models.get is free and fails the same way generateContent would for a bad key or model
+  validateKey: async (apiKey, config, signal) => {
+    const url = joinUrl(config.endpoint, `models/${config.model}`);
+    log.debug('Validating key against:', url);
+
+    const response = await fetch(`${url}?key=${encodeURIComponent(apiKey)}`, { signal });
+    await throwForModelLookup(response, 'Gemini Provider');
+  },
+};
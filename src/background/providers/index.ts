@@ -0,0 +1,118 @@
+import type { GenerationConfig, ProviderConfig, ProviderId, TokenUsage } from '@/shared/types';
+import { createLogger } from '@/shared/logger';
+
+// Request handed to a provider: grader instructions and the delimited user prompt, sent
+// as separate parts (system instruction + user message), plus credentials
+export interface ProviderRequest {
+  instructions: string;
+  userContent: string;
+  apiKey: string | null;
+  config: ProviderConfig;
+  generation: GenerationConfig;
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void; // Called with the token counts the backend reports
+}
+
+// Assessment provider interface
+export interface AssessmentProvider {
+  id: ProviderId;
+  name: string;
+  requiresApiKey: boolean;
+  // Returns the raw text of the model's reply (expected to be the assessment JSON)
+  complete: (request: ProviderRequest) => Promise<string>;
+  // Optional streaming variant; calls onText with the accumulated text as chunks arrive
+  stream?: (request: ProviderRequest, onText: (textSoFar: string) => void) => Promise<string>;
+  // Optional reachability check; throws an error code when the backend is unusable
+  checkHealth?: (config: ProviderConfig) => Promise<void>;
+  // Optional credential check that spends no tokens (looks up the configured model);
+  // throws INVALID_API_KEY, RATE_LIMIT or MODEL_NOT_AVAILABLE
+  validateKey?: (apiKey: string, config: ProviderConfig, signal?: AbortSignal) => Promise<void>;
+}
+
+// Error raised for a failed HTTP response; message is one of the shared error codes
+export class ProviderError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(code: string, status?: number, retryAfterMs?: number) {
+    super(code);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Helper to join a base endpoint and a path without doubling slashes
+export function joinUrl(endpoint: string, path: string): string {
+  return `${endpoint.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+// Helper to map a failed HTTP response to the shared error codes
+export async function throwForStatus(response: Response, tag: string): Promise<void> {
+  if (response.ok) return;
+
+  const log = createLogger(tag);
+  log.error('API error:', response.status, response.statusText);
+
+  // Try to get error body
+  let errorBody = '';
+  try {
+    errorBody = await response.text();
+    log.error('Error body:', errorBody);
+  } catch (e) {
+    log.error('Could not read error body');
+  }
+
+  // Gemini reports malformed or unknown keys as 400 API_KEY_INVALID rather than 401
+  const invalidKey = response.status === 400 && errorBody.includes('API_KEY_INVALID');
+
+  if (response.status === 401 || response.status === 403 || invalidKey) {
+    throw new ProviderError('INVALID_API_KEY', response.status);
+  } else if (response.status === 429) {
+    throw new ProviderError(
+      'RATE_LIMIT',
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
+  } else {
+    throw new ProviderError(`API_ERROR: ${response.statusText}`, response.status);
+  }
+}
+
+// Helper for model lookups during key validation: a 404 means the key works but the model doesn't
+export async function throwForModelLookup(response: Response, tag: string): Promise<void> {
+  if (response.status === 404) {
+    throw new ProviderError('MODEL_NOT_AVAILABLE', response.status);
+  }
+  await throwForStatus(response, tag);
+}
+
+// Import all providers
+import { geminiProvider } from './gemini';
+import { openAIProvider } from './openai';
+import { localProvider } from './local';
+
+// Provider registry
+const providers: Record<ProviderId, AssessmentProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  local: localProvider,
+};
+
+// Look up a provider by id, falling back to Gemini for unknown ids
+export function getProvider(id: ProviderId): AssessmentProvider {
+  return providers[id] ?? geminiProvider;
+}
@@ -0,0 +1,87 @@
+import type { AssessmentProvider } from './index';
+import { joinUrl, throwForStatus } from './index';
+import { getChatCompletionUsage } from './openai';
+import type { ChatCompletionResponse } from './openai';
+import { createLogger } from '@/shared/logger';
+
+const log = createLogger('Local Provider');
+
+// Both Ollama and llama.cpp's server expose the OpenAI-compatible routes under /v1
+async function fetchLocal(url: string, init?: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    // Let timeouts and cancellations propagate unchanged
+    if (init?.signal?.aborted) throw error;
+
+    log.error('Server unreachable:', error);
+    throw new Error('LOCAL_SERVER_UNAVAILABLE');
+  }
+}
+
+// Map local-server specific statuses before falling back to the shared mapping
+async function throwForLocalStatus(response: Response): Promise<void> {
+  if (response.status === 403) {
+    // Ollama rejects origins not listed in OLLAMA_ORIGINS
+    throw new Error('LOCAL_ORIGIN_BLOCKED');
+  }
+  if (response.status === 404) {
+    throw new Error('LOCAL_MODEL_NOT_FOUND');
+  }
+  await throwForStatus(response, 'Local Provider');
+}
+
+// Locally hosted model server (Ollama / llama.cpp); prompt text never leaves the machine
+export const localProvider: AssessmentProvider = {
+  id: 'local',
+  name: 'Local model server',
+  requiresApiKey: false,
+
+  complete: async ({ instructions, userContent, config, generation, signal, onUsage }) => {
+    const url = joinUrl(config.endpoint, 'v1/chat/completions');
+    log.debug('Endpoint:', url);
+
+    const response = await fetchLocal(url, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: [
+          {
+            role: 'system',
+            content: instructions,
+          },
+          {
+            role: 'user',
+            content: userContent,
+          },
+        ],
+        temperature: generation.temperature,
+        ...(generation.maxOutputTokens !== null && { max_tokens: generation.maxOutputTokens }),
+        response_format: { type: 'json_object' },
+        stream: false,
+      }),
+    });
+
+    log.debug('Response status:', response.status);
+    await throwForLocalStatus(response);
+
+    const data: ChatCompletionResponse = await response.json();
+
+    const usage = getChatCompletionUsage(data);
+    if (usage) onUsage?.(usage);
+
+    return data.choices?.[0]?.message?.content || '';
+  },
+
+  checkHealth: async (config) => {
+    const url = joinUrl(config.endpoint, 'v1/models');
+    log.debug('Health check:', url);
+
+    const response = await fetchLocal(url);
+    await throwForLocalStatus(response);
+  },
+};
@@ -0,0 +1,95 @@
+import type { TokenUsage } from '@/shared/types';
+import type { AssessmentProvider } from './index';
+import { joinUrl, throwForStatus, throwForModelLookup } from './index';
+import { createLogger } from '@/shared/logger';
+
+const log = createLogger('OpenAI Provider');
+
+export interface ChatCompletionResponse {
+  choices: Array<{
+    message: {
+      content: string | null;
+    };
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
+}
+
+// Token counts from an OpenAI-style usage block, if the server sent one
+export function getChatCompletionUsage(data: ChatCompletionResponse): TokenUsage | null {
+  if (!data.usage) return null;
+
+  return {
+    promptTokens: data.usage.prompt_tokens ?? 0,
+    responseTokens: data.usage.completion_tokens ?? 0,
+  };
+}
+
+function buildHeaders(url: string, apiKey: string | null): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${apiKey}`,
+  };
+
+  // Azure OpenAI authenticates resource keys via the api-key header
+  if (new URL(url).hostname.endsWith('.azure.com')) {
+    headers['api-key'] = apiKey ?? '';
+  }
+
+  return headers;
+}
+
+// OpenAI-compatible /chat/completions provider (OpenAI, Azure OpenAI v1, proxies)
+export const openAIProvider: AssessmentProvider = {
+  id: 'openai',
+  name: 'OpenAI-compatible',
+  requiresApiKey: true,
+
+  complete: async ({ instructions, userContent, apiKey, config, generation, signal, onUsage }) => {
+    const url = joinUrl(config.endpoint, 'chat/completions');
+    log.debug('Endpoint:', url);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      signal,
+      headers: buildHeaders(url, apiKey),
+      body: JSON.stringify({
+        model: config.model,
+        messages: [
+          {
+            role: 'system',
+            content: instructions,
+          },
+          {
+            role: 'user',
+            content: userContent,
+          },
+        ],
+        temperature: generation.temperature,
+        ...(generation.maxOutputTokens !== null && { max_tokens: generation.maxOutputTokens }),
+        response_format: { type: 'json_object' },
+      }),
+    });
+
+    log.debug('Response status:', response.status);
+    await throwForStatus(response, 'OpenAI Provider');
+
+    const data: ChatCompletionResponse = await response.json();
+    log.debug('Choices count:', data.choices?.length || 0);
+
+    const usage = getChatCompletionUsage(data);
+    if (usage) onUsage?.(usage);
+
+    return data.choices?.[0]?.message?.content || '';
+  },
+
+  validateKey: async (apiKey, config, signal) => {
+    const url = joinUrl(config.endpoint, `models/${encodeURIComponent(config.model)}`);
+    log.debug('Validating key against:', url);
+
+    const response = await fetch(url, { signal, headers: buildHeaders(url, apiKey) });
+    await throwForModelLookup(response, 'OpenAI Provider');
+  },
+};
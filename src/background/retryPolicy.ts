@@ -0,0 +1,114 @@
+import { ProviderError } from './providers';
+import { createLogger } from '@/shared/logger';
+
+const log = createLogger('Retry');
+
+export interface RetryOptions {
+  timeoutMs: number; // Per-attempt timeout
+  maxAttempts: number; // Including the first attempt
+  baseDelayMs: number; // Backoff delay before the second attempt
+  maxDelayMs: number; // Upper bound for a single backoff delay
+  signal?: AbortSignal; // Aborted when a newer request supersedes this one
+  onRetry?: (attempt: number, maxAttempts: number) => void;
+}
+
+export const BASE_DELAY_MS = 1000;
+export const MAX_DELAY_MS = 8000;
+
+// Errors worth another attempt: rate limits, timeouts, 5xx and dropped connections
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    return error.message === 'RATE_LIMIT' || (error.status !== undefined && error.status >= 500);
+  }
+  if (error instanceof Error && error.message === 'TIMEOUT') {
+    return true;
+  }
+  // fetch rejects with a TypeError when the connection fails
+  return error instanceof TypeError;
+}
+
+// Exponential backoff with equal jitter: half fixed, half random
+export function getBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+// Run an operation with a per-attempt timeout and retry transient failures
+export async function withRetry<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await runWithTimeout(operation, options.timeoutMs, options.signal);
+    } catch (error) {
+      if (attempt >= options.maxAttempts || !isRetryable(error) || options.signal?.aborted) {
+        throw error;
+      }
+
+      let delay = getBackoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+
+      // Honor Retry-After, but give up rather than keep the user waiting too long
+      if (error instanceof ProviderError && error.retryAfterMs !== undefined) {
+        if (error.retryAfterMs > options.maxDelayMs) {
+          throw error;
+        }
+        delay = Math.max(delay, error.retryAfterMs);
+      }
+
+      log.info(`Attempt ${attempt} failed, retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, options.signal);
+      options.onRetry?.(attempt + 1, options.maxAttempts);
+    }
+  }
+}
+
+async function runWithTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  outerSignal?: AbortSignal
+): Promise<T> {
+  if (outerSignal?.aborted) {
+    throw new Error('SUPERSEDED');
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onOuterAbort = () => controller.abort();
+  outerSignal?.addEventListener('abort', onOuterAbort);
+
+  try {
+    return await operation(controller.signal);
+  } catch (error) {
+    if (outerSignal?.aborted) {
+      throw new Error('SUPERSEDED');
+    }
+    if (controller.signal.aborted) {
+      throw new Error('TIMEOUT');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    outerSignal?.removeEventListener('abort', onOuterAbort);
+  }
+}
+
+// Backoff sleep that ends early (rejecting) when the request is superseded
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('SUPERSEDED'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
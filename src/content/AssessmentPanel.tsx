@@ -1,24 +1,68 @@
 import React from 'react';
-import type { Assessment, Language, ScoreLevel } from '@/shared/types';
+import type {
+  Assessment,
+  Language,
+  PartialAssessment,
+  RetryProgress,
+  ScoreLevel,
+  ScoreThresholds,
+} from '@/shared/types';
 import { t, getErrorMessage } from '@/shared/i18n';
+import { SCORE_DIMENSIONS, deriveScoreLevel } from '@/shared/scoring';
+import { diffWords } from '@/utils/textDiff';
+import { ClarifyingQuestions } from './ClarifyingQuestions';
+import type { SnoozeOption } from '@/shared/siteRules';
 
 interface AssessmentPanelProps {
   assessment: Assessment | null;
+  partialAssessment: PartialAssessment | null; // Streaming result of the pending assessment
   isAssessing: boolean;
+  retryProgress: RetryProgress | null;
   error: string | null;
   language: Language;
+  scoreThresholds: ScoreThresholds;
+  originalPrompt: string | null; // Text the current assessment was made for
+  onApplyRewrite: (text: string) => boolean;
+  onAddContext: (contextBlock: string) => void; // Append answers to the prompt and re-assess
   onClose: () => void;
+  onSnooze: (option: SnoozeOption) => void; // Hide Snap on this site for a while
   onAssess: () => void;
 }
 
 export const AssessmentPanel: React.FC<AssessmentPanelProps> = ({
   assessment,
+  partialAssessment,
   isAssessing,
+  retryProgress,
   error,
   language,
+  scoreThresholds,
+  originalPrompt,
+  onApplyRewrite,
+  onAddContext,
   onClose,
+  onSnooze,
   onAssess,
 }) => {
+  // Render the streaming result once its score has arrived, otherwise the last complete one
+  const displayed = isAssessing && partialAssessment?.score ? partialAssessment : assessment;
+
+  const [rewriteApplied, setRewriteApplied] = React.useState(false);
+
+  const rewriteDiff = React.useMemo(() => {
+    if (!assessment?.improvedPrompt || originalPrompt === null) return null;
+    if (assessment.improvedPrompt.trim() === originalPrompt.trim()) return null;
+    return diffWords(originalPrompt, assessment.improvedPrompt);
+  }, [assessment, originalPrompt]);
+
+  React.useEffect(() => setRewriteApplied(false), [assessment]);
+
+  const handleApplyRewrite = () => {
+    if (assessment && onApplyRewrite(assessment.improvedPrompt)) {
+      setRewriteApplied(true);
+    }
+  };
+
   const getScoreColor = (score: ScoreLevel) => {
     switch (score) {
       case 'green':
@@ -63,7 +107,23 @@ export const AssessmentPanel: React.FC<AssessmentPanelProps> = ({
       }}
     >
       {/* Header */}
-      <div style={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <select
+          value=""
+          onChange={(e) => e.target.value && onSnooze(e.target.value as SnoozeOption)}
+          style={{
+            border: 'none',
+            background: 'none',
+            fontSize: '12px',
+            color: '#666',
+            cursor: 'pointer',
+          }}
+          title={t('snooze_label', language)}
+        >
+          <option value="">{t('snooze_label', language)}</option>
+          <option value="hour">{t('snooze_hour', language)}</option>
+          <option value="tomorrow">{t('snooze_tomorrow', language)}</option>
+        </select>
         <button
           onClick={onClose}
           style={{
@@ -94,7 +154,7 @@ export const AssessmentPanel: React.FC<AssessmentPanelProps> = ({
           >
             {getErrorMessage(error, language)}
           </div>
-        ) : assessment ? (
+        ) : displayed?.score ? (
           <>
             {/* Score Badge */}
             <div
@@ -104,8 +164,8 @@ export const AssessmentPanel: React.FC<AssessmentPanelProps> = ({
                 gap: '8px',
                 padding: '8px 12px',
                 borderRadius: '6px',
-                backgroundColor: `${getScoreColor(assessment.score)}15`,
-                border: `2px solid ${getScoreColor(assessment.score)}`,
+                backgroundColor: `${getScoreColor(displayed.score)}15`,
+                border: `2px solid ${getScoreColor(displayed.score)}`,
                 marginBottom: '12px',
               }}
             >
@@ -114,38 +174,127 @@ export const AssessmentPanel: React.FC<AssessmentPanelProps> = ({
                   width: '12px',
                   height: '12px',
                   borderRadius: '50%',
-                  backgroundColor: getScoreColor(assessment.score),
+                  backgroundColor: getScoreColor(displayed.score),
                 }}
               />
               <span
                 style={{
                   fontSize: '14px',
                   fontWeight: 600,
-                  color: getScoreColor(assessment.score),
+                  color: getScoreColor(displayed.score),
                 }}
               >
-                {getScoreLabel(assessment.score)}
+                {getScoreLabel(displayed.score)}
+                {displayed.overallScore !== undefined && ` · ${displayed.overallScore}`}
               </span>
             </div>
 
+            {/* Dimension Breakdown */}
+            {displayed.dimensions && (
+              <div
+                style={{
+                  display: 'grid',
+                  gridTemplateColumns: 'auto 1fr 28px',
+                  gap: '4px 8px',
+                  alignItems: 'center',
+                  marginBottom: '12px',
+                }}
+              >
+                {SCORE_DIMENSIONS.map((dimension) => {
+                  const value = displayed.dimensions?.[dimension];
+                  const color =
+                    value !== undefined ? getScoreColor(deriveScoreLevel(value, scoreThresholds)) : '#e5e7eb';
+
+                  return (
+                    <React.Fragment key={dimension}>
+                      <span style={{ fontSize: '12px', color: '#666' }}>
+                        {t(`dim_${dimension}`, language)}
+                      </span>
+                      <div
+                        style={{
+                          height: '6px',
+                          borderRadius: '3px',
+                          backgroundColor: '#f3f4f6',
+                          overflow: 'hidden',
+                        }}
+                      >
+                        <div
+                          style={{
+                            width: `${value ?? 0}%`,
+                            height: '100%',
+                            backgroundColor: color,
+                            transition: 'width 0.3s',
+                          }}
+                        />
+                      </div>
+                      <span style={{ fontSize: '12px', color: '#333', textAlign: 'right' }}>
+                        {value ?? ''}
+                      </span>
+                    </React.Fragment>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Offline fallback marker */}
+            {displayed === assessment && assessment.offline && (
+              <div
+                style={{
+                  padding: '8px 12px',
+                  marginBottom: '12px',
+                  backgroundColor: '#f3f4f6',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '6px',
+                  fontSize: '12px',
+                  color: '#4b5563',
+                }}
+              >
+                {t('offline_notice', language)}
+              </div>
+            )}
+
+            {/* Grader manipulation warning */}
+            {displayed === assessment && assessment.manipulationFlags && assessment.manipulationFlags.length > 0 && (
+              <div
+                style={{
+                  padding: '8px 12px',
+                  marginBottom: '12px',
+                  backgroundColor: '#fffbeb',
+                  border: '1px solid #f59e0b',
+                  borderRadius: '6px',
+                  fontSize: '12px',
+                  color: '#92400e',
+                }}
+              >
+                {t('manipulation_warning', language)}
+              </div>
+            )}
+
             {/* Explanation */}
             <div style={{ marginBottom: '12px' }}>
               <div style={{ fontSize: '12px', fontWeight: 600, color: '#666', marginBottom: '4px' }}>
                 {t('explanation', language)}
               </div>
               <div style={{ fontSize: '14px', color: '#333', lineHeight: '1.5' }}>
-                {assessment.explanation}
+                {displayed.explanation}
               </div>
             </div>
 
-            {/* Missing Context */}
-            {assessment.missingContext && assessment.missingContext.length > 0 && (
+            {/* Missing Context: questions once the result is final, a plain list while streaming */}
+            {displayed === assessment && assessment.missingContext.length > 0 ? (
+              <ClarifyingQuestions
+                key={assessment.timestamp}
+                missingContext={assessment.missingContext}
+                language={language}
+                onSubmit={onAddContext}
+              />
+            ) : displayed.missingContext && displayed.missingContext.length > 0 && (
               <div>
                 <div style={{ fontSize: '12px', fontWeight: 600, color: '#666', marginBottom: '4px' }}>
                   {t('missing_context', language)}
                 </div>
                 <ul style={{ margin: 0, paddingLeft: '20px', fontSize: '14px', color: '#333' }}>
-                  {assessment.missingContext.map((item, index) => (
+                  {displayed.missingContext.map((item, index) => (
                     <li key={index} style={{ marginBottom: '4px' }}>
                       {item}
                     </li>
@@ -153,6 +302,71 @@ export const AssessmentPanel: React.FC<AssessmentPanelProps> = ({
                 </ul>
               </div>
             )}
+
+            {/* Suggested Rewrite */}
+            {displayed === assessment && rewriteDiff && (
+              <div style={{ marginTop: '12px' }}>
+                <div
+                  style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    marginBottom: '4px',
+                  }}
+                >
+                  <span style={{ fontSize: '12px', fontWeight: 600, color: '#666' }}>
+                    {t('improved_prompt', language)}
+                  </span>
+                  <button
+                    onClick={handleApplyRewrite}
+                    disabled={rewriteApplied}
+                    style={{
+                      padding: '4px 10px',
+                      backgroundColor: rewriteApplied ? '#22c55e' : '#5b21b6',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: '4px',
+                      fontSize: '12px',
+                      fontWeight: 600,
+                      cursor: rewriteApplied ? 'default' : 'pointer',
+                    }}
+                  >
+                    {rewriteApplied ? t('rewrite_applied', language) : t('apply_rewrite', language)}
+                  </button>
+                </div>
+                <div
+                  style={{
+                    maxHeight: '150px',
+                    overflowY: 'auto',
+                    padding: '8px',
+                    backgroundColor: '#f9fafb',
+                    border: '1px solid #e5e7eb',
+                    borderRadius: '6px',
+                    fontSize: '13px',
+                    lineHeight: '1.5',
+                    color: '#333',
+                    whiteSpace: 'pre-wrap',
+                  }}
+                >
+                  {rewriteDiff.map((segment, index) =>
+                    segment.type === 'equal' ? (
+                      <span key={index}>{segment.text}</span>
+                    ) : segment.type === 'added' ? (
+                      <span key={index} style={{ backgroundColor: '#dcfce7', color: '#166534' }}>
+                        {segment.text}
+                      </span>
+                    ) : (
+                      <span
+                        key={index}
+                        style={{ backgroundColor: '#fee2e2', color: '#991b1b', textDecoration: 'line-through' }}
+                      >
+                        {segment.text}
+                      </span>
+                    )
+                  )}
+                </div>
+              </div>
+            )}
           </>
         ) : (
           <div style={{ fontSize: '14px', color: '#666', textAlign: 'center', padding: '20px 0' }}>
@@ -194,7 +408,11 @@ export const AssessmentPanel: React.FC<AssessmentPanelProps> = ({
           }
         }}
       >
-        {isAssessing ? t('assessing', language) : t('assess_button', language)}
+        {isAssessing
+          ? retryProgress
+            ? `${t('retrying', language)} (${retryProgress.attempt}/${retryProgress.maxAttempts})...`
+            : t('assessing', language)
+          : t('assess_button', language)}
       </button>
 
       <style>{`
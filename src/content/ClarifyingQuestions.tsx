@@ -0,0 +1,89 @@
+import React from 'react';
+import type { Language } from '@/shared/types';
+import { t } from '@/shared/i18n';
+import { toQuestion, buildContextBlock } from './clarifyingQuestions';
+
+interface ClarifyingQuestionsProps {
+  missingContext: string[];
+  language: Language;
+  onSubmit: (contextBlock: string) => void;
+}
+
+export const ClarifyingQuestions: React.FC<ClarifyingQuestionsProps> = ({
+  missingContext,
+  language,
+  onSubmit,
+}) => {
+  const [answers, setAnswers] = React.useState<string[]>(() => missingContext.map(() => ''));
+  const questions = React.useMemo(() => missingContext.map(toQuestion), [missingContext]);
+  const hasAnswer = answers.some((answer) => answer.trim());
+
+  const handleSubmit = () => {
+    const block = buildContextBlock(
+      questions.map((question, index) => ({ question, answer: answers[index] })),
+      language
+    );
+    if (block) {
+      onSubmit(block);
+    }
+  };
+
+  return (
+    <div>
+      <div style={{ fontSize: '12px', fontWeight: 600, color: '#666', marginBottom: '4px' }}>
+        {t('missing_context', language)}
+      </div>
+      {missingContext.map((item, index) => (
+        <div key={index} style={{ marginBottom: '8px' }}>
+          <label
+            htmlFor={`snap-question-${index}`}
+            title={item}
+            style={{ display: 'block', fontSize: '13px', color: '#333', marginBottom: '2px' }}
+          >
+            {questions[index]}
+          </label>
+          <input
+            id={`snap-question-${index}`}
+            type="text"
+            value={answers[index]}
+            onChange={(e) => {
+              const next = [...answers];
+              next[index] = e.target.value;
+              setAnswers(next);
+            }}
+            onKeyDown={(e) => {
+              // Keep typing here from reaching the page's own shortcuts
+              e.stopPropagation();
+              if (e.key === 'Enter' && hasAnswer) handleSubmit();
+            }}
+            placeholder={item}
+            style={{
+              width: '100%',
+              padding: '6px 8px',
+              border: '1px solid #d1d5db',
+              borderRadius: '4px',
+              fontSize: '13px',
+            }}
+          />
+        </div>
+      ))}
+      <button
+        onClick={handleSubmit}
+        disabled={!hasAnswer}
+        style={{
+          width: '100%',
+          padding: '8px',
+          backgroundColor: hasAnswer ? '#ede9fe' : '#f3f4f6',
+          color: hasAnswer ? '#5b21b6' : '#9ca3af',
+          border: `1px solid ${hasAnswer ? '#c4b5fd' : '#e5e7eb'}`,
+          borderRadius: '6px',
+          fontSize: '13px',
+          fontWeight: 600,
+          cursor: hasAnswer ? 'pointer' : 'not-allowed',
+        }}
+      >
+        {t('add_context_and_reassess', language)}
+      </button>
+    </div>
+  );
+};
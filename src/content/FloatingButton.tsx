@@ -1,6 +1,9 @@
 import React from 'react';
 import type { ScoreLevel } from '@/shared/types';
 import Orb from './Orb';
+import { createLogger } from '@/shared/logger';
+
+const log = createLogger('FloatingButton');
 
 interface FloatingButtonProps {
   score: ScoreLevel | null;
@@ -249,7 +252,7 @@ export const FloatingButton: React.FC<FloatingButtonProps> = ({
 
   // Debug logging
   React.useEffect(() => {
-    console.log('[FloatingButton] State:', state, {
+    log.debug('State:', state, {
       score,
       isAssessing,
       isTrackerActive,
@@ -0,0 +1,26 @@
+import type { Language } from '@/shared/types';
+
+// Separators the assessor uses between a missing item and its reason
+const REASON_SEPARATOR = /\s*(?:[:：]|\s[-–—]\s|[（(])/;
+
+// Turn a missing-context entry into a short question, e.g.
+// "Target audience: helps tailor the tone" -> "Target audience?"
+export function toQuestion(item: string): string {
+  const subject = item.split(REASON_SEPARATOR)[0].trim().replace(/[.。?？]+$/, '');
+  if (!subject) return item;
+
+  return /[\u4e00-\u9fff]/.test(subject) ? `${subject}？` : `${subject}?`;
+}
+
+// Format answered questions as a context block to append to the prompt
+export function buildContextBlock(
+  answers: Array<{ question: string; answer: string }>,
+  language: Language
+): string {
+  const heading = language === 'zh' ? '补充信息：' : 'Additional context:';
+  const lines = answers
+    .filter(({ answer }) => answer.trim())
+    .map(({ question, answer }) => `- ${question.replace(/[?？]$/, '')}: ${answer.trim()}`);
+
+  return lines.length > 0 ? [heading, ...lines].join('\n') : '';
+}
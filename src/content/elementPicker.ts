@@ -0,0 +1,172 @@
+import { createLogger } from '@/shared/logger';
+
+const log = createLogger('Element Picker');
+
+// Picker mode: highlight the element under the pointer, click to choose it, Esc to cancel.
+// Lives in the page's own DOM (not the Snap shadow root) so the overlay can cover anything.
+
+const EDITABLE_SELECTOR = 'textarea, input, [contenteditable=""], [contenteditable="true"], [role="textbox"]';
+
+// Input types a prompt can be typed into; buttons, checkboxes and the like are not
+const TEXT_INPUT_TYPES = ['text', 'search', 'email', 'url'];
+
+// Attributes stable enough to identify an input across page loads
+const STABLE_ATTRIBUTES = ['data-testid', 'data-test', 'data-qa', 'name', 'aria-label', 'placeholder', 'role'];
+
+// Ids and classes that look generated by a build tool or framework change between deploys
+const GENERATED_NAME = /\d{3,}|^[a-z]{1,3}-[a-z0-9]{5,}$|^css-|^sc-|^_/;
+
+function isEditable(el: Element): boolean {
+  if (el instanceof HTMLInputElement) {
+    return TEXT_INPUT_TYPES.includes(el.type);
+  }
+  return el.matches(EDITABLE_SELECTOR);
+}
+
+function isUnique(selector: string): boolean {
+  try {
+    return document.querySelectorAll(selector).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+// The most specific selector for one element on its own, or null if none is unique
+function describeElement(el: Element): string | null {
+  const tag = el.tagName.toLowerCase();
+
+  if (el.id && !GENERATED_NAME.test(el.id)) {
+    const selector = `#${CSS.escape(el.id)}`;
+    if (isUnique(selector)) return selector;
+  }
+
+  for (const attribute of STABLE_ATTRIBUTES) {
+    const value = el.getAttribute(attribute);
+    if (!value) continue;
+    const selector = `${tag}[${attribute}="${CSS.escape(value)}"]`;
+    if (isUnique(selector)) return selector;
+  }
+
+  const classes = Array.from(el.classList).filter((name) => !GENERATED_NAME.test(name));
+  if (classes.length > 0) {
+    const selector = `${tag}.${classes.map((name) => CSS.escape(name)).join('.')}`;
+    if (isUnique(selector)) return selector;
+  }
+
+  return null;
+}
+
+// A selector that matches only this element, preferring stable attributes over DOM position
+export function buildSelector(target: Element): string {
+  const own = describeElement(target);
+  if (own) return own;
+
+  // Anchor on the nearest uniquely identifiable ancestor and walk down by position
+  const steps: string[] = [];
+  let el: Element | null = target;
+  while (el && el !== document.body) {
+    const current: Element = el;
+    const parent = current.parentElement;
+    const tag = current.tagName.toLowerCase();
+    const sameTag = parent ? Array.from(parent.children).filter((child) => child.tagName === current.tagName) : [];
+    steps.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})` : tag);
+
+    const anchor = parent && parent !== document.body ? describeElement(parent) : null;
+    const selector = [anchor ?? 'body', ...steps].join(' > ');
+    if ((anchor || parent === document.body) && isUnique(selector)) {
+      return selector;
+    }
+    el = parent;
+  }
+
+  return ['body', ...steps].join(' > ');
+}
+
+// Let the user choose an editable element; resolves with it, or null if cancelled. Clicks on
+// anything that cannot hold a prompt keep the picker open and show rejectHint instead.
+export function pickElement(hint: string, rejectHint: string): Promise<HTMLElement | null> {
+  return new Promise((resolve) => {
+    const highlight = document.createElement('div');
+    highlight.style.cssText =
+      'position: fixed; pointer-events: none; z-index: 2147483647; border: 2px solid #5b21b6;' +
+      'background: rgba(91, 33, 182, 0.12); border-radius: 4px; transition: all 0.05s; display: none;';
+
+    const banner = document.createElement('div');
+    banner.style.cssText =
+      'position: fixed; top: 12px; left: 50%; transform: translateX(-50%); z-index: 2147483647;' +
+      'pointer-events: none; padding: 8px 14px; border-radius: 6px; color: white;' +
+      'font: 600 13px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;';
+
+    const showBanner = (text: string, color: string) => {
+      banner.textContent = text;
+      banner.style.background = color;
+    };
+    showBanner(hint, '#5b21b6');
+
+    document.body.append(highlight, banner);
+
+    // Clicks on text inside an editor should pick the editor itself
+    const resolveTarget = (el: Element): HTMLElement => (el.closest(EDITABLE_SELECTOR) ?? el) as HTMLElement;
+
+    let hovered: HTMLElement | null = null;
+
+    const handleMove = (e: MouseEvent) => {
+      const el = document.elementFromPoint(e.clientX, e.clientY);
+      if (!el || el === highlight || el === banner) return;
+
+      hovered = resolveTarget(el);
+      if (isEditable(hovered)) {
+        showBanner(hint, '#5b21b6');
+      }
+      const rect = hovered.getBoundingClientRect();
+      Object.assign(highlight.style, {
+        display: 'block',
+        top: `${rect.top}px`,
+        left: `${rect.left}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
+      });
+    };
+
+    // Swallow the page's own handling of the picking click
+    const handleClick = (e: MouseEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (!hovered || !isEditable(hovered)) {
+        showBanner(rejectHint, '#991b1b');
+        return;
+      }
+      finish(hovered);
+    };
+
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        finish(null);
+      }
+    };
+
+    const blockEvent = (e: Event) => {
+      e.preventDefault();
+      e.stopPropagation();
+    };
+
+    const finish = (picked: HTMLElement | null) => {
+      document.removeEventListener('mousemove', handleMove, true);
+      document.removeEventListener('click', handleClick, true);
+      document.removeEventListener('mousedown', blockEvent, true);
+      document.removeEventListener('mouseup', blockEvent, true);
+      document.removeEventListener('keydown', handleKey, true);
+      highlight.remove();
+      banner.remove();
+      log.info(picked ? `Picked <${picked.tagName.toLowerCase()}>` : 'Picker cancelled');
+      resolve(picked);
+    };
+
+    document.addEventListener('mousemove', handleMove, true);
+    document.addEventListener('click', handleClick, true);
+    document.addEventListener('mousedown', blockEvent, true);
+    document.addEventListener('mouseup', blockEvent, true);
+    document.addEventListener('keydown', handleKey, true);
+  });
+}
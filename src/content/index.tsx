@@ -2,40 +2,86 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { FloatingButton } from './FloatingButton';
 import { AssessmentPanel } from './AssessmentPanel';
-import type { Assessment, Language } from '@/shared/types';
-import { detectPlatform } from './platformDetectors';
-import { requestAssessment } from '@/shared/messages';
+import type {
+  Assessment,
+  Language,
+  Message,
+  PartialAssessment,
+  RetryProgress,
+  ScoreThresholds,
+  Settings,
+} from '@/shared/types';
+import { detectPlatform, writePromptText } from './platformDetectors';
+import type { PlatformDetector } from './platformDetectors';
+import { requestAssessment, generateRequestId } from '@/shared/messages';
 import { detectLanguageFromText } from '@/utils/languageDetection';
 import { VelocityTracker } from '@/utils/velocityTracker';
+import { getSettings, normalizeSettings, snoozeHost, saveCustomDetector } from '@/shared/storage';
+import { isActiveOnHost, getSnoozeEnd, getSnoozeUntil } from '@/shared/siteRules';
+import { normalizeHost } from '@/shared/rubrics';
+import { t } from '@/shared/i18n';
+import { pickElement, buildSelector } from './elementPicker';
+import type { SnoozeOption } from '@/shared/siteRules';
+import { DEFAULT_SCORE_THRESHOLDS } from '@/shared/scoring';
+import { buildConversationWindow } from '@/utils/conversationWindow';
+import { getUsageSummary, isOverDailyLimit } from '@/shared/usage';
+import { createLogger } from '@/shared/logger';
+
+const log = createLogger('Snap');
+
+interface AppProps {
+  customSelector?: string; // Prompt input picked by the user for this site
+}
 
 // Main App component
-function App() {
+function App({ customSelector }: AppProps) {
   const [assessment, setAssessment] = React.useState<Assessment | null>(null);
+  const [assessedText, setAssessedText] = React.useState<string | null>(null);
+  const [partialAssessment, setPartialAssessment] = React.useState<PartialAssessment | null>(null);
   const [isAssessing, setIsAssessing] = React.useState(false);
+  const [retryProgress, setRetryProgress] = React.useState<RetryProgress | null>(null);
   const [isPanelOpen, setIsPanelOpen] = React.useState(false);
   const [promptText, setPromptText] = React.useState('');
   const promptTextRef = React.useRef('');
   const [isActive, setIsActive] = React.useState(false);
   const [language] = React.useState<Language>('zh');
   const [error, setError] = React.useState<string | null>(null);
+  const [scoreThresholds, setScoreThresholds] = React.useState<ScoreThresholds>(DEFAULT_SCORE_THRESHOLDS);
   const [typingVelocity, setTypingVelocity] = React.useState(0);
   const [isTrackerActive, setIsTrackerActive] = React.useState(false);
   const velocityTrackerRef = React.useRef<VelocityTracker | null>(null);
   const inactivityTimerRef = React.useRef<number | null>(null);
   const velocityPollTimerRef = React.useRef<number | null>(null);
   const isTrackerActiveRef = React.useRef(false); // For internal callbacks
+  const latestRequestIdRef = React.useRef<string | null>(null); // Only this request's result is shown
+  const platformRef = React.useRef<PlatformDetector | null>(null);
+
+  // Thresholds color the per-dimension bars the same way the overall level is derived
+  React.useEffect(() => {
+    getSettings().then((settings) => setScoreThresholds(settings.scoreThresholds));
+  }, []);
+
+  // Stop the timers when Snap is switched off or snoozed on this page
+  React.useEffect(() => {
+    return () => {
+      if (inactivityTimerRef.current) clearTimeout(inactivityTimerRef.current);
+      if (velocityPollTimerRef.current) clearInterval(velocityPollTimerRef.current);
+    };
+  }, []);
 
   React.useEffect(() => {
     // Detect platform and start monitoring
-    const platform = detectPlatform();
+    const platform = detectPlatform(customSelector);
+    platformRef.current = platform;
 
     if (platform) {
-      console.log(`[Snap] Platform detected: ${platform.name}`);
+      log.info(`Platform detected: ${platform.name}`);
       setIsActive(true);
 
       // Initialize velocity tracker FIRST
       const tracker = new VelocityTracker();
       velocityTrackerRef.current = tracker;
+      getSettings().then((settings) => tracker.setConfig(settings.velocityConfig));
 
       // Start observing prompt changes and track keystrokes
       let previousTextForTracking = '';
@@ -50,7 +96,7 @@ function App() {
 
           // Only track if tracker is active
           if (isTrackerActiveRef.current) {
-            console.log(`[Snap] Text changed, tracking ${newChars.length} new chars:`, newChars);
+            log.debug(`Text changed, tracking ${newChars.length} new chars`, { newChars });
             for (const char of newChars) {
               tracker.trackKeystroke(char);
             }
@@ -68,11 +114,11 @@ function App() {
       const handleKeyboardShortcut = (e: KeyboardEvent) => {
         if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === 's') {
           e.preventDefault();
-          console.log('[Snap] Manual trigger via Cmd+Shift+S');
+          log.info('Manual trigger via Cmd+Shift+S');
           if (isTrackerActiveRef.current) {
             tracker.forceTrigger();
           } else {
-            console.log('[Snap] Tracker not active yet, click Assess first');
+            log.info('Tracker not active yet, click Assess first');
           }
         }
       };
@@ -86,7 +132,7 @@ function App() {
         document.removeEventListener('keydown', handleKeyboardShortcut);
       };
     } else {
-      console.log('[Snap] No chatbot platform detected');
+      log.info('No chatbot platform detected');
       setIsActive(false);
     }
   }, []);
@@ -103,7 +149,7 @@ function App() {
       return;
     }
 
-    console.log('[Snap] Activating velocity tracker');
+    log.info('Activating velocity tracker');
     isTrackerActiveRef.current = true;
     setIsTrackerActive(true);
 
@@ -113,8 +159,17 @@ function App() {
         return promptTextRef.current;
       },
       // onTrigger callback - auto-assess when velocity conditions met
-      (text) => {
-        console.log('[Snap] Velocity trigger - auto-assessing prompt');
+      async (text, source) => {
+        // Daily caps pause auto-assessment only; the shortcut still works
+        if (source === 'auto') {
+          const [{ today }, settings] = await Promise.all([getUsageSummary(), getSettings()]);
+          if (isOverDailyLimit(today, settings.usageLimits)) {
+            log.info('Daily usage limit reached - auto-assessment paused');
+            return;
+          }
+        }
+
+        log.info(`Velocity trigger (${source}) - assessing prompt`);
         handleAssess(text);
         setIsPanelOpen(true); // Auto-open panel on assessment
       }
@@ -138,7 +193,7 @@ function App() {
     }
 
     inactivityTimerRef.current = window.setTimeout(() => {
-      console.log('[Snap] Auto-disabling after 15 minutes of inactivity');
+      log.info('Auto-disabling after 15 minutes of inactivity');
       isTrackerActiveRef.current = false;
       setIsTrackerActive(false);
       setTypingVelocity(0);
@@ -161,23 +216,88 @@ function App() {
     // Activate velocity tracker on first assessment
     activateVelocityTracker();
 
+    // A newer request supersedes any pending one (background aborts the old fetch)
+    const requestId = generateRequestId();
+    latestRequestIdRef.current = requestId;
+    const isStale = () => latestRequestIdRef.current !== requestId;
+
     setIsAssessing(true);
+    setRetryProgress(null);
+    setPartialAssessment(null);
     setError(null);
 
     try {
       const detectedLanguage = detectLanguageFromText(textToAssess);
-      const result = await requestAssessment(textToAssess, detectedLanguage);
+      const platform = platformRef.current;
+      const context = {
+        conversation: buildConversationWindow(platform?.extractConversation() ?? []),
+        host: window.location.hostname,
+        platform: platform?.name,
+      };
+      const result = await requestAssessment(textToAssess, detectedLanguage, context, requestId, {
+        onProgress: (progress) => {
+          if (!isStale()) setRetryProgress(progress);
+        },
+        onPartial: (partial) => {
+          if (!isStale()) setPartialAssessment(partial);
+        },
+      });
+      if (isStale()) {
+        log.info('Discarding stale assessment result:', requestId);
+        return;
+      }
       setAssessment(result);
-      console.log('[Snap] Assessment result:', result);
+      setAssessedText(textToAssess);
+      log.debug('Assessment result:', result);
     } catch (err) {
-      console.error('[Snap] Assessment failed:', err);
+      if (isStale()) {
+        log.info('Ignoring error from superseded request:', requestId);
+        return;
+      }
+      log.error('Assessment failed:', err);
       const errorMessage = err instanceof Error ? err.message : 'UNKNOWN_ERROR';
       setError(errorMessage);
     } finally {
-      setIsAssessing(false);
+      if (!isStale()) {
+        setIsAssessing(false);
+        setRetryProgress(null);
+        setPartialAssessment(null);
+      }
+    }
+  };
+
+  // Write the suggested rewrite back into the chat input
+  const handleApplyRewrite = (text: string): boolean => {
+    const input = platformRef.current?.getPromptInput();
+    if (!input) {
+      log.info('Cannot apply rewrite: prompt input not found');
+      return false;
+    }
+    return writePromptText(input, text);
+  };
+
+  // Append answered clarifying questions to the chat input, then re-assess the result
+  const handleAddContext = (contextBlock: string) => {
+    const platform = platformRef.current;
+    const input = platform?.getPromptInput();
+    if (!platform || !input) {
+      log.info('Cannot add context: prompt input not found');
+      return;
+    }
+
+    const currentText = platform.extractPromptText();
+    const newText = currentText ? `${currentText}\n\n${contextBlock}` : contextBlock;
+    if (writePromptText(input, newText)) {
+      handleAssess(newText);
     }
   };
 
+  // Hide Snap on this site for a while; the storage change unmounts it
+  const handleSnooze = (option: SnoozeOption) => {
+    log.info(`Snoozing on ${window.location.hostname} (${option})`);
+    snoozeHost(window.location.hostname, getSnoozeUntil(option));
+  };
+
   // Only show UI if active on a chatbot platform
   if (!isActive) {
     return null;
@@ -195,10 +315,17 @@ function App() {
       {isPanelOpen && (
         <AssessmentPanel
           assessment={assessment}
+          partialAssessment={partialAssessment}
           isAssessing={isAssessing}
+          retryProgress={retryProgress}
           error={error}
           language={language}
+          scoreThresholds={scoreThresholds}
+          originalPrompt={assessedText}
+          onApplyRewrite={handleApplyRewrite}
+          onAddContext={handleAddContext}
           onClose={() => setIsPanelOpen(false)}
+          onSnooze={handleSnooze}
           onAssess={() => handleAssess()}
         />
       )}
@@ -206,6 +333,56 @@ function App() {
   );
 }
 
+// Mount the app only while Snap is enabled and allowed on this site, following the
+// popup's toggle, site rules and snoozes as they change
+function SiteGate() {
+  const [isAllowed, setIsAllowed] = React.useState(false);
+  const [customSelector, setCustomSelector] = React.useState<string | undefined>();
+
+  React.useEffect(() => {
+    const host = window.location.hostname;
+    let snoozeTimer: number | null = null;
+
+    const apply = (settings: Settings) => {
+      setIsAllowed(isActiveOnHost(settings, host));
+      setCustomSelector(settings.customDetectors[normalizeHost(host)]);
+
+      // Come back by itself when a snooze runs out
+      if (snoozeTimer) clearTimeout(snoozeTimer);
+      const snoozeEnd = getSnoozeEnd(settings.snoozes, host);
+      snoozeTimer = snoozeEnd === null ? null : window.setTimeout(() => apply(settings), snoozeEnd - Date.now() + 1000);
+    };
+
+    const handleStorageChange = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+      if (area === 'local' && changes.settings) {
+        apply(normalizeSettings(changes.settings.newValue));
+      }
+    };
+
+    getSettings().then(apply);
+    chrome.storage.onChanged.addListener(handleStorageChange);
+
+    return () => {
+      if (snoozeTimer) clearTimeout(snoozeTimer);
+      chrome.storage.onChanged.removeListener(handleStorageChange);
+    };
+  }, []);
+
+  // A new custom selector remounts the app so detection runs again
+  return isAllowed ? <App key={customSelector ?? 'built-in'} customSelector={customSelector} /> : null;
+}
+
+// Let the user point at the prompt input and remember it for this site
+async function runElementPicker() {
+  const { defaultLanguage } = await getSettings();
+  const picked = await pickElement(t('picker_hint', defaultLanguage), t('picker_not_editable', defaultLanguage));
+  if (!picked) return;
+
+  const selector = buildSelector(picked);
+  log.info('Saving custom detector:', { selector });
+  await saveCustomDetector(window.location.hostname, selector);
+}
+
 // Initialize the extension
 function init() {
   // Check if extension should be active (detect chatbot input)
@@ -289,9 +466,16 @@ function init() {
 
   // Render React app
   const root = ReactDOM.createRoot(reactRoot);
-  root.render(<App />);
+  root.render(<SiteGate />);
+
+  // The popup starts the picker even where no platform was detected
+  chrome.runtime.onMessage.addListener((message: Message, _sender, sendResponse) => {
+    if (message.type !== 'START_ELEMENT_PICKER') return;
+    sendResponse({ ok: true });
+    runElementPicker();
+  });
 
-  console.log('[Snap] Extension initialized');
+  log.info('Extension initialized');
 }
 
 // Wait for DOM to be ready
@@ -1,5 +1,5 @@
 import type { PlatformDetector } from './index';
-import { isVisible } from './index';
+import { isVisible, collectConversation } from './index';
 
 export const chatGPTDetector: PlatformDetector = {
   name: 'ChatGPT',
@@ -43,6 +43,10 @@ export const chatGPTDetector: PlatformDetector = {
     );
   },
 
+  extractConversation: () => {
+    return collectConversation('[data-message-author-role="user"]', '[data-message-author-role="assistant"]');
+  },
+
   observeChanges: (callback) => {
     let lastText = '';
     const interval = setInterval(() => {
@@ -1,5 +1,5 @@
 import type { PlatformDetector } from './index';
-import { isVisible } from './index';
+import { isVisible, collectConversation } from './index';
 
 export const claudeDetector: PlatformDetector = {
   name: 'Claude',
@@ -39,6 +39,10 @@ export const claudeDetector: PlatformDetector = {
     );
   },
 
+  extractConversation: () => {
+    return collectConversation('[data-testid="user-message"]', '.font-claude-response, .font-claude-message');
+  },
+
   observeChanges: (callback) => {
     let lastText = '';
     const interval = setInterval(() => {
@@ -0,0 +1,51 @@
+import type { PlatformDetector } from './index';
+
+// Detector built from a selector the user picked on the page; tried before the registry
+export function createCustomDetector(selector: string): PlatformDetector {
+  const detector: PlatformDetector = {
+    name: 'Custom',
+
+    detect: () => {
+      return detector.getPromptInput() !== null;
+    },
+
+    getPromptInput: () => {
+      try {
+        return document.querySelector<HTMLElement>(selector);
+      } catch {
+        // Stored selector no longer parses; fall through to the built-in detectors
+        return null;
+      }
+    },
+
+    extractPromptText: () => {
+      const input = detector.getPromptInput();
+      if (!input) return '';
+
+      if (input instanceof HTMLTextAreaElement || input instanceof HTMLInputElement) {
+        return input.value.trim();
+      }
+      return (input.innerText || input.textContent || '').trim();
+    },
+
+    extractConversation: () => {
+      // Only the input is known; assess the draft on its own
+      return [];
+    },
+
+    observeChanges: (callback) => {
+      let lastText = '';
+      const interval = setInterval(() => {
+        const currentText = detector.extractPromptText();
+        if (currentText !== lastText) {
+          lastText = currentText;
+          callback(currentText);
+        }
+      }, 200);
+
+      return () => clearInterval(interval);
+    },
+  };
+
+  return detector;
+}
@@ -1,5 +1,5 @@
 import type { PlatformDetector } from './index';
-import { isVisible } from './index';
+import { isVisible, collectConversation } from './index';
 
 export const deepseekDetector: PlatformDetector = {
   name: 'DeepSeek',
@@ -41,6 +41,10 @@ export const deepseekDetector: PlatformDetector = {
     );
   },
 
+  extractConversation: () => {
+    return collectConversation('.ds-message:not(:has(.ds-markdown))', '.ds-markdown');
+  },
+
   observeChanges: (callback) => {
     let lastText = '';
     const interval = setInterval(() => {
@@ -1,5 +1,5 @@
 import type { PlatformDetector } from './index';
-import { isVisible } from './index';
+import { isVisible, collectConversation } from './index';
 
 export const geminiDetector: PlatformDetector = {
   name: 'Gemini',
@@ -39,6 +39,10 @@ export const geminiDetector: PlatformDetector = {
     );
   },
 
+  extractConversation: () => {
+    return collectConversation('user-query', 'model-response');
+  },
+
   observeChanges: (callback) => {
     let lastText = '';
     const interval = setInterval(() => {
@@ -63,6 +63,11 @@ export const genericDetector: PlatformDetector = {
     );
   },
 
+  extractConversation: () => {
+    // Unknown page structure; assess the draft on its own
+    return [];
+  },
+
   observeChanges: (callback) => {
     let lastText = '';
     const interval = setInterval(() => {
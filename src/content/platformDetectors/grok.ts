@@ -1,5 +1,5 @@
 import type { PlatformDetector } from './index';
-import { isVisible } from './index';
+import { isVisible, collectConversation } from './index';
 
 export const grokDetector: PlatformDetector = {
   name: 'Grok',
@@ -41,6 +41,10 @@ export const grokDetector: PlatformDetector = {
     );
   },
 
+  extractConversation: () => {
+    return collectConversation('.items-end .message-bubble', '.items-start .message-bubble');
+  },
+
   observeChanges: (callback) => {
     let lastText = '';
     const interval = setInterval(() => {
@@ -1,9 +1,13 @@
+import type { ConversationTurn } from '@/shared/types';
+import { createLogger } from '@/shared/logger';
+
 // Platform detector interface
 export interface PlatformDetector {
   name: string;
   detect: () => boolean;
   getPromptInput: () => HTMLElement | null;
   extractPromptText: () => string;
+  extractConversation: () => ConversationTurn[]; // Visible thread, oldest first
   observeChanges: (callback: (text: string) => void) => () => void;
 }
 
@@ -16,6 +20,63 @@ export function isVisible(el: HTMLElement): boolean {
   );
 }
 
+// Helper to collect visible user/assistant turns in document order
+export function collectConversation(userSelector: string, assistantSelector: string): ConversationTurn[] {
+  const found: Array<{ el: HTMLElement; role: ConversationTurn['role'] }> = [];
+
+  for (const [selector, role] of [
+    [userSelector, 'user'],
+    [assistantSelector, 'assistant'],
+  ] as const) {
+    const elements = Array.from(document.querySelectorAll<HTMLElement>(selector));
+    for (const el of elements) {
+      // Skip matches nested inside another match (e.g. a wrapper and its content)
+      if (!elements.some((other) => other !== el && other.contains(el))) {
+        found.push({ el, role });
+      }
+    }
+  }
+
+  found.sort((a, b) =>
+    a.el.compareDocumentPosition(b.el) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+  );
+
+  return found
+    .map(({ el, role }) => ({ role, text: (el.innerText || el.textContent || '').trim() }))
+    .filter((turn) => turn.text.length > 0);
+}
+
+// Helper to replace the text of a prompt input so the page's editor notices the change
+export function writePromptText(el: HTMLElement, text: string): boolean {
+  el.focus();
+
+  if (el instanceof HTMLTextAreaElement || el instanceof HTMLInputElement) {
+    // Use the native setter so React-controlled inputs pick up the new value
+    const prototype = el instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+    const setter = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+    setter?.call(el, text);
+    el.dispatchEvent(new Event('input', { bubbles: true }));
+    return true;
+  }
+
+  if (el.isContentEditable) {
+    // execCommand goes through the editor's own input handling (ProseMirror, Lexical, ...)
+    const selection = window.getSelection();
+    const range = document.createRange();
+    range.selectNodeContents(el);
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+
+    if (!document.execCommand('insertText', false, text)) {
+      el.textContent = text;
+      el.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertText', data: text }));
+    }
+    return true;
+  }
+
+  return false;
+}
+
 // Import all detectors
 import { chatGPTDetector } from './chatgpt';
 import { claudeDetector } from './claude';
@@ -24,6 +85,9 @@ import { deepseekDetector } from './deepseek';
 import { grokDetector } from './grok';
 import { yuanbaoDetector } from './yuanbao';
 import { genericDetector } from './generic';
+import { createCustomDetector } from './custom';
+
+const log = createLogger('Platform Detection');
 
 // Detector registry (order matters - specific detectors first, generic last)
 const detectors: PlatformDetector[] = [
@@ -36,27 +100,31 @@ const detectors: PlatformDetector[] = [
   genericDetector, // Fallback - always matches
 ];
 
-// Detect current platform
-export function detectPlatform(): PlatformDetector | null {
-  console.log('[Platform Detection] Starting detection on:', window.location.hostname);
+// Detect current platform; a user-picked selector for this site is tried first
+export function detectPlatform(customSelector?: string): PlatformDetector | null {
+  const host = window.location.hostname;
+  log.debug('Starting detection on:', host);
+
+  if (customSelector) {
+    const custom = createCustomDetector(customSelector);
+    if (custom.detect()) {
+      log.detector(`Custom selector on ${host}`, { selector: customSelector });
+      return custom;
+    }
+    log.detector(`Custom selector not found on ${host}, trying built-in detectors`, { selector: customSelector });
+  }
 
   for (const detector of detectors) {
-    console.log(`[Platform Detection] Trying ${detector.name}...`);
+    log.debug(`Trying ${detector.name}...`);
     if (detector.detect()) {
-      console.log(`[Platform Detection] ✓ Detected: ${detector.name}`);
-
       // Test if we can find input
       const input = detector.getPromptInput();
-      if (input) {
-        console.log(`[Platform Detection] ✓ Input element found for ${detector.name}`);
-      } else {
-        console.log(`[Platform Detection] ✗ Input element NOT found for ${detector.name}`);
-      }
+      log.detector(`${detector.name} on ${host}`, { inputFound: Boolean(input) });
 
       return detector;
     }
   }
 
-  console.log('[Platform Detection] ✗ No platform detected');
+  log.detector(`No platform on ${host}`);
   return null;
 }
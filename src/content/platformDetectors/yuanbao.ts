@@ -1,5 +1,5 @@
 import type { PlatformDetector } from './index';
-import { isVisible } from './index';
+import { isVisible, collectConversation } from './index';
 
 export const yuanbaoDetector: PlatformDetector = {
   name: 'Yuanbao',
@@ -42,6 +42,10 @@ export const yuanbaoDetector: PlatformDetector = {
     );
   },
 
+  extractConversation: () => {
+    return collectConversation('.agent-chat__list__item--human', '.agent-chat__list__item--ai');
+  },
+
   observeChanges: (callback) => {
     let lastText = '';
     const interval = setInterval(() => {
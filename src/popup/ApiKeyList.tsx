@@ -0,0 +1,51 @@
+import React from 'react';
+import { t } from '@/shared/i18n';
+import type { ApiKeyEntry, Language } from '@/shared/types';
+import { inputStyle, secondaryButtonStyle } from './styles';
+
+interface ApiKeyListProps {
+  language: Language;
+  keys: ApiKeyEntry[];
+  onKeysChange: (keys: ApiKeyEntry[]) => void;
+}
+
+// Last few characters only, enough to tell keys apart
+function maskKey(key: string): string {
+  return `••••${key.slice(-4)}`;
+}
+
+// Saved keys for the current provider, in rotation order
+export const ApiKeyList: React.FC<ApiKeyListProps> = ({ language, keys, onKeysChange }) => {
+  if (keys.length === 0) return null;
+
+  const updateLabel = (id: string, label: string) => {
+    onKeysChange(keys.map((entry) => (entry.id === id ? { ...entry, label } : entry)));
+  };
+
+  return (
+    <div style={{ marginBottom: '8px' }}>
+      {keys.map((entry, index) => (
+        <div key={entry.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px', fontSize: '13px' }}>
+          <span style={{ color: '#666', width: '16px' }}>{index + 1}.</span>
+          <input
+            type="text"
+            value={entry.label}
+            onChange={(e) => updateLabel(entry.id, e.target.value)}
+            placeholder={t('api_key_label_placeholder', language)}
+            style={{ ...inputStyle, flex: 1, padding: '4px 8px' }}
+          />
+          <span style={{ fontFamily: 'monospace', color: '#666' }}>{maskKey(entry.key)}</span>
+          <button
+            onClick={() => onKeysChange(keys.filter((other) => other.id !== entry.id))}
+            style={{ ...secondaryButtonStyle, padding: '2px 8px', fontSize: '12px' }}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      {keys.length > 1 && (
+        <div style={{ fontSize: '12px', color: '#666' }}>{t('api_key_rotation_hint', language)}</div>
+      )}
+    </div>
+  );
+};
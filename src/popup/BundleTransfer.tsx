@@ -0,0 +1,127 @@
+import React from 'react';
+import { t, getErrorMessage } from '@/shared/i18n';
+import { getSettings, saveSettings } from '@/shared/storage';
+import { createBundle, parseBundle, diffBundle, applyBundle } from '@/shared/settingsBundle';
+import type { BundleChange, SettingsBundle } from '@/shared/settingsBundle';
+import type { Language } from '@/shared/types';
+import { labelStyle, secondaryButtonStyle } from './styles';
+
+interface BundleTransferProps {
+  language: Language;
+  onApplied: () => void; // Reload the popup state from storage
+}
+
+const CHANGE_MARKS: Record<BundleChange['kind'], { mark: string; color: string }> = {
+  added: { mark: '+', color: '#15803d' },
+  removed: { mark: '−', color: '#991b1b' },
+  changed: { mark: '~', color: '#b45309' },
+};
+
+// Export the team configuration to a JSON file, or review and import one
+export const BundleTransfer: React.FC<BundleTransferProps> = ({ language, onApplied }) => {
+  const [pending, setPending] = React.useState<{ bundle: SettingsBundle; changes: BundleChange[] } | null>(null);
+  const [status, setStatus] = React.useState<string | null>(null); // 'applied' or an error code
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    const bundle = createBundle(await getSettings());
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'snap-bundle.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+
+    setStatus(null);
+    try {
+      const bundle = parseBundle(await file.text());
+      setPending({ bundle, changes: diffBundle(await getSettings(), bundle) });
+    } catch (err) {
+      setPending(null);
+      setStatus(err instanceof Error ? err.message : 'UNKNOWN_ERROR');
+    }
+  };
+
+  const handleApply = async () => {
+    if (!pending) return;
+    await saveSettings(applyBundle(await getSettings(), pending.bundle));
+    setPending(null);
+    setStatus('applied');
+    onApplied();
+  };
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <label style={labelStyle}>{t('bundle_label', language)}</label>
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button onClick={handleExport} style={{ ...secondaryButtonStyle, flex: 1 }}>
+          {t('bundle_export', language)}
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} style={{ ...secondaryButtonStyle, flex: 1 }}>
+          {t('bundle_import', language)}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChosen}
+          style={{ display: 'none' }}
+        />
+      </div>
+
+      {status && (
+        <div style={{ fontSize: '12px', marginTop: '8px', color: status === 'applied' ? '#15803d' : '#991b1b' }}>
+          {status === 'applied' ? t('bundle_applied', language) : getErrorMessage(status, language)}
+        </div>
+      )}
+
+      {/* Diff preview */}
+      {pending && (
+        <div
+          style={{
+            marginTop: '8px',
+            padding: '8px 12px',
+            border: '1px solid #ddd',
+            borderRadius: '6px',
+            fontSize: '12px',
+          }}
+        >
+          {pending.changes.length === 0 ? (
+            <div style={{ color: '#666' }}>{t('bundle_no_changes', language)}</div>
+          ) : (
+            <>
+              <div style={{ color: '#666', marginBottom: '6px' }}>{t('bundle_review', language)}</div>
+              {pending.changes.map((change, index) => (
+                <div key={index} style={{ color: CHANGE_MARKS[change.kind].color, marginBottom: '2px' }}>
+                  {CHANGE_MARKS[change.kind].mark} {t(`bundle_section_${change.section}`, language)}
+                  {change.label && `: ${change.label}`}
+                  {change.kind === 'changed' && change.before !== undefined && ` (${change.before} → ${change.after})`}
+                  {change.kind === 'added' && change.after && ` = ${change.after}`}
+                </div>
+              ))}
+            </>
+          )}
+          <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+            <button
+              onClick={handleApply}
+              disabled={pending.changes.length === 0}
+              style={{ ...secondaryButtonStyle, flex: 1, opacity: pending.changes.length === 0 ? 0.5 : 1 }}
+            >
+              {t('bundle_apply', language)}
+            </button>
+            <button onClick={() => setPending(null)} style={{ ...secondaryButtonStyle, flex: 1 }}>
+              {t('bundle_cancel', language)}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { t, getErrorMessage } from '@/shared/i18n';
+import { startElementPicker } from '@/shared/messages';
+import type { Language } from '@/shared/types';
+import { labelStyle, secondaryButtonStyle } from './styles';
+
+interface CustomDetectorsProps {
+  language: Language;
+  customDetectors: Record<string, string>;
+  onRemove: (host: string) => void;
+}
+
+// Picked prompt inputs per site, and the button that starts the picker on the current tab
+export const CustomDetectors: React.FC<CustomDetectorsProps> = ({ language, customDetectors, onRemove }) => {
+  const [error, setError] = React.useState<string | null>(null);
+
+  // The popup closes so the page can be clicked
+  const handlePick = async () => {
+    setError(null);
+    try {
+      await startElementPicker();
+      window.close();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'UNKNOWN_ERROR');
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <label style={labelStyle}>{t('custom_detectors_label', language)}</label>
+      <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px' }}>{t('custom_detectors_hint', language)}</div>
+
+      {Object.entries(customDetectors).map(([host, selector]) => (
+        <div key={host} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px', fontSize: '13px' }}>
+          <span style={{ fontFamily: 'monospace' }}>{host}</span>
+          <span
+            style={{ flex: 1, color: '#666', fontFamily: 'monospace', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+            title={selector}
+          >
+            {selector}
+          </span>
+          <button
+            onClick={() => onRemove(host)}
+            style={{ ...secondaryButtonStyle, padding: '2px 8px', fontSize: '12px' }}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <button onClick={handlePick} style={{ ...secondaryButtonStyle, width: '100%' }}>
+        {t('picker_start', language)}
+      </button>
+      {error && <div style={{ fontSize: '12px', marginTop: '8px', color: '#991b1b' }}>{getErrorMessage(error, language)}</div>}
+    </div>
+  );
+};
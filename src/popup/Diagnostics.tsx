@@ -0,0 +1,114 @@
+import React from 'react';
+import { t } from '@/shared/i18n';
+import { getDiagnostics, clearDiagnostics } from '@/shared/logger';
+import type { LogEvent } from '@/shared/logger';
+import type { Language, LogLevel } from '@/shared/types';
+import { inputStyle, labelStyle, secondaryButtonStyle } from './styles';
+
+const LOG_LEVELS: LogLevel[] = ['off', 'error', 'info', 'debug'];
+const ROWS_PER_LIST = 5;
+
+interface DiagnosticsProps {
+  language: Language;
+  logLevel: LogLevel;
+  logPromptText: boolean;
+  onLogLevelChange: (level: LogLevel) => void;
+  onLogPromptTextChange: (include: boolean) => void;
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString();
+}
+
+function describe(event: LogEvent): string {
+  const data = event.data && event.data.length > 0 ? ` ${event.data.map((item) => JSON.stringify(item)).join(' ')}` : '';
+  return `[${event.tag}] ${event.message}${data}`;
+}
+
+// Log settings plus the most recent errors, detector matches and latencies
+export const Diagnostics: React.FC<DiagnosticsProps> = ({
+  language,
+  logLevel,
+  logPromptText,
+  onLogLevelChange,
+  onLogPromptTextChange,
+}) => {
+  const [events, setEvents] = React.useState<LogEvent[]>([]);
+
+  React.useEffect(() => {
+    getDiagnostics().then(setEvents);
+  }, []);
+
+  const handleClear = async () => {
+    await clearDiagnostics();
+    setEvents([]);
+  };
+
+  const latencies = events.filter((event) => event.category === 'latency');
+  const averageLatency =
+    latencies.length > 0
+      ? Math.round(latencies.reduce((sum, event) => sum + (event.durationMs ?? 0), 0) / latencies.length)
+      : null;
+
+  const sections: Array<{ title: string; items: LogEvent[] }> = [
+    { title: t('diagnostics_errors', language), items: events.filter((event) => event.level === 'error') },
+    { title: t('diagnostics_detectors', language), items: events.filter((event) => event.category === 'detector') },
+    {
+      title:
+        averageLatency === null
+          ? t('diagnostics_latencies', language)
+          : `${t('diagnostics_latencies', language)} (${t('diagnostics_average', language)} ${averageLatency} ms)`,
+      items: latencies,
+    },
+  ];
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <label style={labelStyle}>{t('diagnostics_label', language)}</label>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '8px' }}>
+        <select
+          value={logLevel}
+          onChange={(e) => onLogLevelChange(e.target.value as LogLevel)}
+          style={{ ...inputStyle, width: 'auto', fontFamily: 'inherit' }}
+        >
+          {LOG_LEVELS.map((level) => (
+            <option key={level} value={level}>
+              {t(`log_level_${level}`, language)}
+            </option>
+          ))}
+        </select>
+        <label style={{ display: 'flex', alignItems: 'center', fontSize: '12px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={logPromptText}
+            onChange={(e) => onLogPromptTextChange(e.target.checked)}
+            style={{ marginRight: '6px' }}
+          />
+          {t('log_prompt_text', language)}
+        </label>
+      </div>
+
+      {sections.map(({ title, items }) => (
+        <div key={title} style={{ marginBottom: '8px' }}>
+          <div style={{ fontSize: '12px', fontWeight: 600, color: '#666', marginBottom: '2px' }}>{title}</div>
+          {items.length === 0 ? (
+            <div style={{ fontSize: '12px', color: '#999' }}>{t('diagnostics_none', language)}</div>
+          ) : (
+            items.slice(-ROWS_PER_LIST).reverse().map((event, index) => (
+              <div
+                key={`${event.time}-${index}`}
+                style={{ fontSize: '11px', fontFamily: 'monospace', color: '#333', wordBreak: 'break-all' }}
+              >
+                {formatTime(event.time)} {describe(event)}
+              </div>
+            ))
+          )}
+        </div>
+      ))}
+
+      <button onClick={handleClear} style={{ ...secondaryButtonStyle, fontSize: '12px', padding: '4px 10px' }}>
+        {t('diagnostics_clear', language)}
+      </button>
+    </div>
+  );
+};
@@ -1,38 +1,246 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import { saveApiKey, getApiKey, getDefaultLanguage, saveDefaultLanguage } from '@/shared/storage';
-import { t } from '@/shared/i18n';
-import type { Language } from '@/shared/types';
+import {
+  saveApiKeys,
+  getApiKeys,
+  getDefaultLanguage,
+  saveDefaultLanguage,
+  getSettings,
+  saveProviderSettings,
+  saveNetworkSettings,
+  saveScoreThresholds,
+  saveRubricSettings,
+  saveGenerationSettings,
+  saveUsageLimits,
+  saveLogSettings,
+  saveVaultAutoLock,
+  saveSiteRules,
+  setEnabled,
+  clearSnooze,
+  removeCustomDetector,
+  DEFAULT_PROVIDER_CONFIGS,
+  DEFAULT_GENERATION_CONFIG,
+} from '@/shared/storage';
+import { t, getErrorMessage } from '@/shared/i18n';
+import { checkProviderHealth, validateApiKey } from '@/shared/messages';
+import type {
+  ApiKeyEntry,
+  Language,
+  LogLevel,
+  ProviderId,
+  ProviderConfig,
+  ScoreThresholds,
+  RubricTemplate,
+  SiteRule,
+} from '@/shared/types';
+import { DEFAULT_SCORE_THRESHOLDS } from '@/shared/scoring';
+import { BUILTIN_RUBRIC_ID } from '@/shared/rubrics';
+import { getVaultStatus, DEFAULT_AUTO_LOCK_MINUTES } from '@/shared/vault';
+import type { VaultStatus } from '@/shared/vault';
+import { inputStyle, labelStyle, secondaryButtonStyle } from './styles';
+import { RubricEditor } from './RubricEditor';
+import { BundleTransfer } from './BundleTransfer';
+import { UsagePanel } from './UsagePanel';
+import { Diagnostics } from './Diagnostics';
+import { ApiKeyList } from './ApiKeyList';
+import { VaultSettings } from './VaultSettings';
+import { SiteRulesEditor } from './SiteRulesEditor';
+import { CustomDetectors } from './CustomDetectors';
+
+const PROVIDERS: ProviderId[] = ['gemini', 'openai', 'local'];
+
+// Blank or invalid input means "use the provider default"
+function parseOptionalCount(value: string, min: number): number | null {
+  const parsed = Math.round(Number(value));
+  return value.trim() === '' || !Number.isFinite(parsed) ? null : Math.max(min, parsed);
+}
+
+// Stored keys for a provider, or none while the vault is locked. Opening the popup
+// doesn't count as using the vault, so its auto-lock timer keeps running.
+async function readApiKeys(provider: ProviderId): Promise<ApiKeyEntry[]> {
+  try {
+    return await getApiKeys(provider, false);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'VAULT_LOCKED') return [];
+    throw error;
+  }
+}
 
 function Popup() {
-  const [apiKey, setApiKey] = React.useState('');
+  const [apiKeys, setApiKeys] = React.useState<ApiKeyEntry[]>([]);
+  const [apiKey, setApiKey] = React.useState(''); // Key being added
+  const [apiKeyLabel, setApiKeyLabel] = React.useState('');
   const [showApiKey, setShowApiKey] = React.useState(false);
   const [language, setLanguage] = React.useState<Language>('en');
+  const [provider, setProvider] = React.useState<ProviderId>('gemini');
+  const [providerConfigs, setProviderConfigs] =
+    React.useState<Record<ProviderId, ProviderConfig>>(DEFAULT_PROVIDER_CONFIGS);
+  const [timeoutSeconds, setTimeoutSeconds] = React.useState(15);
+  const [maxRetries, setMaxRetries] = React.useState(2);
+  const [scoreThresholds, setScoreThresholds] = React.useState<ScoreThresholds>(DEFAULT_SCORE_THRESHOLDS);
+  const [temperature, setTemperature] = React.useState(DEFAULT_GENERATION_CONFIG.temperature);
+  const [maxOutputTokens, setMaxOutputTokens] = React.useState(''); // Blank means provider default
+  const [thinkingBudget, setThinkingBudget] = React.useState('');
+  const [dailyCostLimit, setDailyCostLimit] = React.useState(''); // Blank means no cap
+  const [dailyAssessmentLimit, setDailyAssessmentLimit] = React.useState('');
+  const [logLevel, setLogLevel] = React.useState<LogLevel>('info');
+  const [logPromptText, setLogPromptText] = React.useState(false);
+  const [rubricTemplates, setRubricTemplates] = React.useState<RubricTemplate[]>([]);
+  const [defaultRubricId, setDefaultRubricId] = React.useState(BUILTIN_RUBRIC_ID);
+  const [siteRubrics, setSiteRubrics] = React.useState<Record<string, string>>({});
+  const [enabled, setEnabledState] = React.useState(true);
+  const [siteRules, setSiteRules] = React.useState<Record<string, SiteRule>>({});
+  const [snoozes, setSnoozes] = React.useState<Record<string, number>>({});
+  const [customDetectors, setCustomDetectors] = React.useState<Record<string, string>>({});
+  const [vaultStatus, setVaultStatus] = React.useState<VaultStatus>('disabled');
+  const [vaultAutoLockMinutes, setVaultAutoLockMinutes] = React.useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [healthStatus, setHealthStatus] = React.useState<string | null>(null); // 'checking', 'ok' or an error code
+  const [keyStatus, setKeyStatus] = React.useState<string | null>(null); // Same, for the key being added
   const [saved, setSaved] = React.useState(false);
   const [loading, setLoading] = React.useState(true);
 
-  // Load settings on mount
-  React.useEffect(() => {
-    (async () => {
-      const storedKey = await getApiKey();
-      const storedLanguage = await getDefaultLanguage();
+  // Load settings on mount, and again after a bundle import or vault change
+  const loadSettings = React.useCallback(async () => {
+    const settings = await getSettings();
+    const storedLanguage = await getDefaultLanguage();
 
-      if (storedKey) {
-        setApiKey(storedKey);
-      }
+    setVaultStatus(await getVaultStatus());
+    setVaultAutoLockMinutes(settings.vaultAutoLockMinutes);
+    setApiKeys(await readApiKeys(settings.provider));
 
-      setLanguage(storedLanguage);
-      setLoading(false);
-    })();
+    setProvider(settings.provider);
+    setProviderConfigs(settings.providerConfigs);
+    setTimeoutSeconds(settings.timeoutMs / 1000);
+    setMaxRetries(settings.maxRetries);
+    setScoreThresholds(settings.scoreThresholds);
+    setTemperature(settings.generation.temperature);
+    setMaxOutputTokens(settings.generation.maxOutputTokens?.toString() ?? '');
+    setThinkingBudget(settings.generation.thinkingBudget?.toString() ?? '');
+    setDailyCostLimit(settings.usageLimits.dailyCost?.toString() ?? '');
+    setDailyAssessmentLimit(settings.usageLimits.dailyAssessments?.toString() ?? '');
+    setLogLevel(settings.logLevel);
+    setLogPromptText(settings.logPromptText);
+    setRubricTemplates(settings.rubricTemplates);
+    setDefaultRubricId(settings.defaultRubricId);
+    setSiteRubrics(settings.siteRubrics);
+    setEnabledState(settings.enabled);
+    setSiteRules(settings.siteRules);
+    setSnoozes(settings.snoozes);
+    setCustomDetectors(settings.customDetectors);
+    setLanguage(storedLanguage);
+    setLoading(false);
   }, []);
 
+  React.useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const handleProviderChange = async (nextProvider: ProviderId) => {
+    setProvider(nextProvider);
+    setHealthStatus(null);
+    setApiKeys(await readApiKeys(nextProvider));
+    setApiKey('');
+    setApiKeyLabel('');
+    setKeyStatus(null);
+  };
+
+  // Takes effect immediately; open pages mount or unmount Snap as soon as it is stored
+  const handleToggleEnabled = async () => {
+    setEnabledState(!enabled);
+    await setEnabled(!enabled);
+  };
+
+  const handleResume = async (host: string) => {
+    await clearSnooze(host);
+    const { [host]: _ended, ...rest } = snoozes;
+    setSnoozes(rest);
+  };
+
+  const handleRemoveCustomDetector = async (host: string) => {
+    await removeCustomDetector(host);
+    const { [host]: _removed, ...rest } = customDetectors;
+    setCustomDetectors(rest);
+  };
+
+  const updateProviderConfig = (patch: Partial<ProviderConfig>) => {
+    setProviderConfigs({
+      ...providerConfigs,
+      [provider]: { ...providerConfigs[provider], ...patch },
+    });
+  };
+
+  // Keys to save, including one typed but not yet added
+  const collectApiKeys = (): ApiKeyEntry[] => {
+    const key = apiKey.trim();
+    if (!key || apiKeys.some((entry) => entry.key === key)) return apiKeys;
+    return [...apiKeys, { id: `key-${Date.now().toString(36)}`, label: apiKeyLabel.trim(), key }];
+  };
+
+  const handleAddApiKey = () => {
+    setApiKeys(collectApiKeys());
+    setApiKey('');
+    setApiKeyLabel('');
+    setKeyStatus(null);
+  };
+
+  const handleValidateKey = async () => {
+    setKeyStatus('checking');
+    try {
+      await validateApiKey(provider, apiKey.trim(), providerConfigs[provider]);
+      setKeyStatus('ok');
+    } catch (err) {
+      setKeyStatus(err instanceof Error ? err.message : 'UNKNOWN_ERROR');
+    }
+  };
+
+  const handleTestConnection = async () => {
+    setHealthStatus('checking');
+    try {
+      await checkProviderHealth(provider, providerConfigs[provider]);
+      setHealthStatus('ok');
+    } catch (err) {
+      setHealthStatus(err instanceof Error ? err.message : 'UNKNOWN_ERROR');
+    }
+  };
+
   const handleSave = async () => {
-    if (apiKey.trim()) {
-      await saveApiKey(apiKey.trim());
-      await saveDefaultLanguage(language);
-      setSaved(true);
-      setTimeout(() => setSaved(false), 2000);
+    // Local model servers need no key, and a locked vault keeps the stored ones. An empty
+    // list is saved too, so removing the last key sticks; providers without a key fall
+    // back to the offline assessment.
+    if (provider !== 'local' && vaultStatus !== 'locked') {
+      await saveApiKeys(collectApiKeys(), provider);
+      handleAddApiKey();
     }
+    await saveProviderSettings(provider, {
+      endpoint: providerConfigs[provider].endpoint.trim() || DEFAULT_PROVIDER_CONFIGS[provider].endpoint,
+      model: providerConfigs[provider].model.trim() || DEFAULT_PROVIDER_CONFIGS[provider].model,
+    });
+    await saveDefaultLanguage(language);
+    await saveNetworkSettings(
+      Math.max(1, timeoutSeconds) * 1000,
+      Math.min(5, Math.max(0, Math.round(maxRetries)))
+    );
+    const orange = Math.min(100, Math.max(0, Math.round(scoreThresholds.orange)));
+    await saveScoreThresholds({
+      orange,
+      green: Math.min(100, Math.max(orange, Math.round(scoreThresholds.green))),
+    });
+    await saveGenerationSettings({
+      temperature: Math.min(2, Math.max(0, temperature)),
+      maxOutputTokens: parseOptionalCount(maxOutputTokens, 1),
+      thinkingBudget: parseOptionalCount(thinkingBudget, 0),
+    });
+    const dailyCost = Number(dailyCostLimit);
+    await saveUsageLimits({
+      dailyCost: dailyCostLimit.trim() === '' || !Number.isFinite(dailyCost) ? null : Math.max(0, dailyCost),
+      dailyAssessments: parseOptionalCount(dailyAssessmentLimit, 0),
+    });
+    await saveLogSettings(logLevel, logPromptText);
+    await saveVaultAutoLock(Math.max(0, Math.round(vaultAutoLockMinutes)));
+    await saveRubricSettings(rubricTemplates, defaultRubricId, siteRubrics);
+    await saveSiteRules(siteRules);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
   };
 
   if (loading) {
@@ -59,45 +267,199 @@ function Popup() {
         {t('help_text', language)}
       </p>
 
-      {/* API Key */}
+      {/* Enable Toggle */}
+      <label style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '20px', cursor: 'pointer' }}>
+        <input type="checkbox" checked={enabled} onChange={handleToggleEnabled} />
+        <span style={{ fontSize: '14px', fontWeight: 600, color: enabled ? '#15803d' : '#666' }}>
+          {enabled ? t('extension_enabled', language) : t('extension_disabled', language)}
+        </span>
+      </label>
+
+      {/* Provider */}
       <div style={{ marginBottom: '20px' }}>
-        <label
-          htmlFor="api-key"
-          style={{ display: 'block', fontSize: '14px', fontWeight: 600, marginBottom: '8px', color: '#333' }}
+        <label htmlFor="provider" style={labelStyle}>
+          {t('provider_label', language)}
+        </label>
+        <select
+          id="provider"
+          value={provider}
+          onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+          style={{ ...inputStyle, fontFamily: 'inherit' }}
         >
-          {t('api_key_label', language)}
+          {PROVIDERS.map((id) => (
+            <option key={id} value={id}>
+              {t(`provider_${id}`, language)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Endpoint (OpenAI-compatible only; Gemini uses its public API) */}
+      {provider !== 'gemini' && (
+        <div style={{ marginBottom: '20px' }}>
+          <label htmlFor="endpoint" style={labelStyle}>
+            {t('endpoint_label', language)}
+          </label>
+          <input
+            id="endpoint"
+            type="text"
+            value={providerConfigs[provider].endpoint}
+            onChange={(e) => updateProviderConfig({ endpoint: e.target.value })}
+            placeholder={DEFAULT_PROVIDER_CONFIGS[provider].endpoint}
+            style={inputStyle}
+          />
+        </div>
+      )}
+
+      {/* Model (editable so a retired preview model can be swapped without a new build) */}
+      <div style={{ marginBottom: '20px' }}>
+        <label htmlFor="model" style={labelStyle}>
+          {t('model_label', language)}
         </label>
-        <div style={{ display: 'flex', gap: '8px' }}>
+        <input
+          id="model"
+          type="text"
+          value={providerConfigs[provider].model}
+          onChange={(e) => updateProviderConfig({ model: e.target.value })}
+          placeholder={DEFAULT_PROVIDER_CONFIGS[provider].model}
+          style={inputStyle}
+        />
+      </div>
+
+      {/* Generation parameters; blank limits leave the provider default */}
+      <div style={{ display: 'flex', gap: '12px', marginBottom: '20px' }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="temperature" style={labelStyle}>
+            {t('temperature_label', language)}
+          </label>
+          <input
+            id="temperature"
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={temperature}
+            onChange={(e) => setTemperature(Number(e.target.value))}
+            style={inputStyle}
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="max-tokens" style={labelStyle}>
+            {t('max_tokens_label', language)}
+          </label>
           <input
-            id="api-key"
-            type={showApiKey ? 'text' : 'password'}
-            value={apiKey}
-            onChange={(e) => setApiKey(e.target.value)}
-            placeholder={t('api_key_placeholder', language)}
-            style={{
-              flex: 1,
-              padding: '8px 12px',
-              border: '1px solid #ccc',
-              borderRadius: '6px',
-              fontSize: '14px',
-              fontFamily: 'monospace',
-            }}
+            id="max-tokens"
+            type="number"
+            min={1}
+            value={maxOutputTokens}
+            onChange={(e) => setMaxOutputTokens(e.target.value)}
+            placeholder={t('default_placeholder', language)}
+            style={inputStyle}
           />
+        </div>
+        {provider === 'gemini' && (
+          <div style={{ flex: 1 }}>
+            <label htmlFor="thinking-budget" style={labelStyle}>
+              {t('thinking_budget_label', language)}
+            </label>
+            <input
+              id="thinking-budget"
+              type="number"
+              min={0}
+              value={thinkingBudget}
+              onChange={(e) => setThinkingBudget(e.target.value)}
+              placeholder={t('default_placeholder', language)}
+              style={inputStyle}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Health check (local server only) */}
+      {provider === 'local' && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '20px' }}>
           <button
-            onClick={() => setShowApiKey(!showApiKey)}
-            style={{
-              padding: '8px 12px',
-              backgroundColor: '#f3f4f6',
-              border: '1px solid #ccc',
-              borderRadius: '6px',
-              cursor: 'pointer',
-              fontSize: '14px',
-            }}
+            onClick={handleTestConnection}
+            disabled={healthStatus === 'checking'}
+            style={secondaryButtonStyle}
           >
-            {showApiKey ? t('api_key_hide', language) : t('api_key_show', language)}
+            {t('test_connection', language)}
           </button>
+          {healthStatus && healthStatus !== 'checking' && (
+            <span style={{ fontSize: '12px', color: healthStatus === 'ok' ? '#15803d' : '#991b1b' }}>
+              {healthStatus === 'ok' ? t('connection_ok', language) : getErrorMessage(healthStatus, language)}
+            </span>
+          )}
         </div>
-      </div>
+      )}
+
+      {/* API Key */}
+      {provider !== 'local' && (
+        <div style={{ marginBottom: '20px' }}>
+          <label htmlFor="api-key" style={labelStyle}>
+            {t('api_key_label', language)}
+          </label>
+          <ApiKeyList language={language} keys={apiKeys} onKeysChange={setApiKeys} />
+          <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
+            <input
+              id="api-key"
+              type={showApiKey ? 'text' : 'password'}
+              value={apiKey}
+              onChange={(e) => {
+                setApiKey(e.target.value);
+                setKeyStatus(null);
+              }}
+              disabled={vaultStatus === 'locked'}
+              placeholder={provider === 'gemini' ? t('api_key_placeholder', language) : 'sk-...'}
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button
+              onClick={() => setShowApiKey(!showApiKey)}
+              style={secondaryButtonStyle}
+            >
+              {showApiKey ? t('api_key_hide', language) : t('api_key_show', language)}
+            </button>
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <input
+              type="text"
+              value={apiKeyLabel}
+              onChange={(e) => setApiKeyLabel(e.target.value)}
+              disabled={vaultStatus === 'locked'}
+              placeholder={t('api_key_label_placeholder', language)}
+              style={{ ...inputStyle, flex: 1, fontFamily: 'inherit' }}
+            />
+            <button
+              onClick={handleValidateKey}
+              disabled={!apiKey.trim() || keyStatus === 'checking'}
+              style={secondaryButtonStyle}
+            >
+              {keyStatus === 'checking' ? t('api_key_checking', language) : t('api_key_check', language)}
+            </button>
+            <button onClick={handleAddApiKey} disabled={vaultStatus === 'locked'} style={secondaryButtonStyle}>
+              {t('api_key_add', language)}
+            </button>
+          </div>
+          {keyStatus && keyStatus !== 'checking' && (
+            <div style={{ fontSize: '12px', marginTop: '6px', color: keyStatus === 'ok' ? '#15803d' : '#991b1b' }}>
+              {keyStatus === 'ok'
+                ? t('api_key_valid', language)
+                : keyStatus === 'RATE_LIMIT'
+                  ? t('api_key_quota_exhausted', language)
+                  : getErrorMessage(keyStatus, language)}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Master Passphrase */}
+      <VaultSettings
+        language={language}
+        status={vaultStatus}
+        autoLockMinutes={vaultAutoLockMinutes}
+        onAutoLockMinutesChange={setVaultAutoLockMinutes}
+        onStatusChange={loadSettings}
+      />
 
       {/* Default Language */}
       <div style={{ marginBottom: '20px' }}>
@@ -128,6 +490,133 @@ function Popup() {
         </div>
       </div>
 
+      {/* Network */}
+      <div style={{ display: 'flex', gap: '12px', marginBottom: '20px' }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="timeout" style={labelStyle}>
+            {t('timeout_label', language)}
+          </label>
+          <input
+            id="timeout"
+            type="number"
+            min={1}
+            value={timeoutSeconds}
+            onChange={(e) => setTimeoutSeconds(Number(e.target.value))}
+            style={inputStyle}
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="retries" style={labelStyle}>
+            {t('retries_label', language)}
+          </label>
+          <input
+            id="retries"
+            type="number"
+            min={0}
+            max={5}
+            value={maxRetries}
+            onChange={(e) => setMaxRetries(Number(e.target.value))}
+            style={inputStyle}
+          />
+        </div>
+      </div>
+
+      {/* Score Thresholds */}
+      <div style={{ display: 'flex', gap: '12px', marginBottom: '20px' }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="threshold-orange" style={labelStyle}>
+            {t('threshold_orange_label', language)}
+          </label>
+          <input
+            id="threshold-orange"
+            type="number"
+            min={0}
+            max={100}
+            value={scoreThresholds.orange}
+            onChange={(e) => setScoreThresholds({ ...scoreThresholds, orange: Number(e.target.value) })}
+            style={inputStyle}
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="threshold-green" style={labelStyle}>
+            {t('threshold_green_label', language)}
+          </label>
+          <input
+            id="threshold-green"
+            type="number"
+            min={0}
+            max={100}
+            value={scoreThresholds.green}
+            onChange={(e) => setScoreThresholds({ ...scoreThresholds, green: Number(e.target.value) })}
+            style={inputStyle}
+          />
+        </div>
+      </div>
+
+      {/* Usage & Daily Limits */}
+      <UsagePanel language={language} />
+      <div style={{ display: 'flex', gap: '12px', marginBottom: '20px' }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="daily-cost" style={labelStyle}>
+            {t('daily_cost_label', language)}
+          </label>
+          <input
+            id="daily-cost"
+            type="number"
+            min={0}
+            step={0.01}
+            value={dailyCostLimit}
+            onChange={(e) => setDailyCostLimit(e.target.value)}
+            placeholder={t('no_limit_placeholder', language)}
+            style={inputStyle}
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="daily-assessments" style={labelStyle}>
+            {t('daily_assessments_label', language)}
+          </label>
+          <input
+            id="daily-assessments"
+            type="number"
+            min={0}
+            value={dailyAssessmentLimit}
+            onChange={(e) => setDailyAssessmentLimit(e.target.value)}
+            placeholder={t('no_limit_placeholder', language)}
+            style={inputStyle}
+          />
+        </div>
+      </div>
+
+      {/* Rubric Templates */}
+      <RubricEditor
+        language={language}
+        templates={rubricTemplates}
+        defaultRubricId={defaultRubricId}
+        siteRubrics={siteRubrics}
+        onTemplatesChange={setRubricTemplates}
+        onDefaultRubricChange={setDefaultRubricId}
+        onSiteRubricsChange={setSiteRubrics}
+      />
+
+      {/* Site Rules */}
+      <SiteRulesEditor
+        language={language}
+        siteRules={siteRules}
+        snoozes={snoozes}
+        onSiteRulesChange={setSiteRules}
+        onResume={handleResume}
+      />
+
+      {/* Custom Detectors */}
+      <CustomDetectors
+        language={language}
+        customDetectors={customDetectors}
+        onRemove={handleRemoveCustomDetector}
+      />
+
+      {/* Team Bundle */}
+      <BundleTransfer language={language} onApplied={loadSettings} />
+
       {/* Save Button */}
       <button
         onClick={handleSave}
@@ -147,29 +636,42 @@ function Popup() {
         {saved ? '✓ Saved!' : t('save_key', language)}
       </button>
 
+      {/* Diagnostics */}
+      <div style={{ marginTop: '20px' }}>
+        <Diagnostics
+          language={language}
+          logLevel={logLevel}
+          logPromptText={logPromptText}
+          onLogLevelChange={setLogLevel}
+          onLogPromptTextChange={setLogPromptText}
+        />
+      </div>
+
       {/* Help */}
-      <div
-        style={{
-          marginTop: '20px',
-          padding: '12px',
-          backgroundColor: '#f3f4f6',
-          borderRadius: '6px',
-          fontSize: '12px',
-          color: '#666',
-        }}
-      >
-        <strong>Get your API key:</strong>
-        <br />
-        Visit{' '}
-        <a
-          href="https://aistudio.google.com/app/apikey"
-          target="_blank"
-          rel="noopener noreferrer"
-          style={{ color: '#5b21b6' }}
+      {provider === 'gemini' && (
+        <div
+          style={{
+            marginTop: '20px',
+            padding: '12px',
+            backgroundColor: '#f3f4f6',
+            borderRadius: '6px',
+            fontSize: '12px',
+            color: '#666',
+          }}
         >
-          aistudio.google.com
-        </a>
-      </div>
+          <strong>Get your API key:</strong>
+          <br />
+          Visit{' '}
+          <a
+            href="https://aistudio.google.com/app/apikey"
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ color: '#5b21b6' }}
+          >
+            aistudio.google.com
+          </a>
+        </div>
+      )}
     </div>
   );
 }
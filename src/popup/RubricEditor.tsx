@@ -0,0 +1,176 @@
+import React from 'react';
+import { t } from '@/shared/i18n';
+import { BUILTIN_RUBRIC, BUILTIN_RUBRIC_ID, normalizeHost } from '@/shared/rubrics';
+import type { Language, RubricTemplate } from '@/shared/types';
+import { inputStyle, labelStyle, secondaryButtonStyle } from './styles';
+
+interface RubricEditorProps {
+  language: Language;
+  templates: RubricTemplate[]; // User templates only
+  defaultRubricId: string;
+  siteRubrics: Record<string, string>;
+  onTemplatesChange: (templates: RubricTemplate[]) => void;
+  onDefaultRubricChange: (id: string) => void;
+  onSiteRubricsChange: (siteRubrics: Record<string, string>) => void;
+}
+
+// Rubric template editor with the default and per-site template choices
+export const RubricEditor: React.FC<RubricEditorProps> = ({
+  language,
+  templates,
+  defaultRubricId,
+  siteRubrics,
+  onTemplatesChange,
+  onDefaultRubricChange,
+  onSiteRubricsChange,
+}) => {
+  const [selectedId, setSelectedId] = React.useState(defaultRubricId);
+  const [newSite, setNewSite] = React.useState('');
+  const [newSiteRubricId, setNewSiteRubricId] = React.useState(BUILTIN_RUBRIC_ID);
+
+  const allTemplates = [BUILTIN_RUBRIC, ...templates];
+  const selected = allTemplates.find((template) => template.id === selectedId) ?? BUILTIN_RUBRIC;
+  const isBuiltin = selected.id === BUILTIN_RUBRIC_ID;
+
+  const updateSelected = (patch: Partial<RubricTemplate>) => {
+    onTemplatesChange(templates.map((template) => (template.id === selected.id ? { ...template, ...patch } : template)));
+  };
+
+  // New templates start as a copy of the one being viewed
+  const handleNew = () => {
+    const template: RubricTemplate = {
+      id: `rubric-${Date.now().toString(36)}`,
+      name: `${selected.name}${t('rubric_copy_suffix', language)}`,
+      body: selected.body,
+    };
+    onTemplatesChange([...templates, template]);
+    setSelectedId(template.id);
+  };
+
+  // Anything pointing at a deleted template falls back to the built-in one
+  const handleDelete = () => {
+    onTemplatesChange(templates.filter((template) => template.id !== selected.id));
+    if (defaultRubricId === selected.id) {
+      onDefaultRubricChange(BUILTIN_RUBRIC_ID);
+    }
+    onSiteRubricsChange(
+      Object.fromEntries(Object.entries(siteRubrics).filter(([, id]) => id !== selected.id))
+    );
+    setSelectedId(BUILTIN_RUBRIC_ID);
+  };
+
+  const handleAddSite = () => {
+    const host = normalizeHost(newSite);
+    if (!host) return;
+    onSiteRubricsChange({ ...siteRubrics, [host]: newSiteRubricId });
+    setNewSite('');
+  };
+
+  const handleRemoveSite = (host: string) => {
+    const { [host]: _removed, ...rest } = siteRubrics;
+    onSiteRubricsChange(rest);
+  };
+
+  const templateOptions = allTemplates.map((template) => (
+    <option key={template.id} value={template.id}>
+      {template.name}
+    </option>
+  ));
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <label htmlFor="rubric-template" style={labelStyle}>
+        {t('rubric_label', language)}
+      </label>
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
+        <select
+          id="rubric-template"
+          value={selected.id}
+          onChange={(e) => setSelectedId(e.target.value)}
+          style={{ ...inputStyle, flex: 1, fontFamily: 'inherit' }}
+        >
+          {templateOptions}
+        </select>
+        <button onClick={handleNew} style={secondaryButtonStyle}>
+          {t('rubric_new', language)}
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={isBuiltin}
+          style={{ ...secondaryButtonStyle, opacity: isBuiltin ? 0.5 : 1 }}
+        >
+          {t('rubric_delete', language)}
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={selected.name}
+        readOnly={isBuiltin}
+        onChange={(e) => updateSelected({ name: e.target.value })}
+        placeholder={t('rubric_name_label', language)}
+        style={{ ...inputStyle, fontFamily: 'inherit', marginBottom: '8px' }}
+      />
+      <textarea
+        value={selected.body}
+        readOnly={isBuiltin}
+        onChange={(e) => updateSelected({ body: e.target.value })}
+        rows={8}
+        style={{ ...inputStyle, fontSize: '12px', resize: 'vertical', backgroundColor: isBuiltin ? '#f9fafb' : 'white' }}
+      />
+      <div style={{ fontSize: '12px', color: '#666', margin: '4px 0 12px' }}>
+        {isBuiltin && <div>{t('rubric_builtin_readonly', language)}</div>}
+        <div>{t('rubric_variables_hint', language)}</div>
+      </div>
+
+      {/* Default template */}
+      <label htmlFor="rubric-default" style={{ ...labelStyle, fontSize: '13px' }}>
+        {t('rubric_default_label', language)}
+      </label>
+      <select
+        id="rubric-default"
+        value={defaultRubricId}
+        onChange={(e) => onDefaultRubricChange(e.target.value)}
+        style={{ ...inputStyle, fontFamily: 'inherit', marginBottom: '12px' }}
+      >
+        {templateOptions}
+      </select>
+
+      {/* Per-site templates */}
+      <label style={{ ...labelStyle, fontSize: '13px' }}>{t('rubric_sites_label', language)}</label>
+      {Object.entries(siteRubrics).map(([host, id]) => (
+        <div key={host} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px', fontSize: '13px' }}>
+          <span style={{ flex: 1, fontFamily: 'monospace' }}>{host}</span>
+          <span style={{ color: '#666' }}>
+            {allTemplates.find((template) => template.id === id)?.name ?? BUILTIN_RUBRIC.name}
+          </span>
+          <button
+            onClick={() => handleRemoveSite(host)}
+            style={{ ...secondaryButtonStyle, padding: '2px 8px', fontSize: '12px' }}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <input
+          type="text"
+          value={newSite}
+          onChange={(e) => setNewSite(e.target.value)}
+          placeholder="chatgpt.com"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <select
+          value={newSiteRubricId}
+          onChange={(e) => setNewSiteRubricId(e.target.value)}
+          style={{ ...inputStyle, flex: 1, fontFamily: 'inherit' }}
+        >
+          {templateOptions}
+        </select>
+        <button onClick={handleAddSite} style={secondaryButtonStyle}>
+          {t('rubric_add_site', language)}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React from 'react';
+import { t } from '@/shared/i18n';
+import { normalizeHost } from '@/shared/rubrics';
+import { pruneSnoozes } from '@/shared/siteRules';
+import type { Language, SiteRule } from '@/shared/types';
+import { inputStyle, labelStyle, secondaryButtonStyle } from './styles';
+
+interface SiteRulesEditorProps {
+  language: Language;
+  siteRules: Record<string, SiteRule>;
+  snoozes: Record<string, number>;
+  onSiteRulesChange: (siteRules: Record<string, SiteRule>) => void;
+  onResume: (host: string) => void; // End a snooze right away
+}
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  marginBottom: '4px',
+  fontSize: '13px',
+};
+
+const smallButtonStyle: React.CSSProperties = { ...secondaryButtonStyle, padding: '2px 8px', fontSize: '12px' };
+
+// Per-site allow/deny rules and the sites currently snoozed
+export const SiteRulesEditor: React.FC<SiteRulesEditorProps> = ({
+  language,
+  siteRules,
+  snoozes,
+  onSiteRulesChange,
+  onResume,
+}) => {
+  const [newSite, setNewSite] = React.useState('');
+  const [newRule, setNewRule] = React.useState<SiteRule>('deny');
+
+  const activeSnoozes = Object.entries(pruneSnoozes(snoozes));
+
+  const handleAdd = () => {
+    const host = normalizeHost(newSite);
+    if (!host) return;
+    onSiteRulesChange({ ...siteRules, [host]: newRule });
+    setNewSite('');
+  };
+
+  const handleRemove = (host: string) => {
+    const { [host]: _removed, ...rest } = siteRules;
+    onSiteRulesChange(rest);
+  };
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <label style={labelStyle}>{t('site_rules_label', language)}</label>
+      <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px' }}>{t('site_rules_hint', language)}</div>
+
+      {Object.entries(siteRules).map(([host, rule]) => (
+        <div key={host} style={rowStyle}>
+          <span style={{ flex: 1, fontFamily: 'monospace' }}>{host}</span>
+          <span style={{ color: rule === 'allow' ? '#15803d' : '#991b1b' }}>{t(`site_rule_${rule}`, language)}</span>
+          <button onClick={() => handleRemove(host)} style={smallButtonStyle}>
+            ×
+          </button>
+        </div>
+      ))}
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <input
+          type="text"
+          value={newSite}
+          onChange={(e) => setNewSite(e.target.value)}
+          placeholder="intranet.example.com"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <select
+          value={newRule}
+          onChange={(e) => setNewRule(e.target.value as SiteRule)}
+          style={{ ...inputStyle, width: 'auto', fontFamily: 'inherit' }}
+        >
+          <option value="deny">{t('site_rule_deny', language)}</option>
+          <option value="allow">{t('site_rule_allow', language)}</option>
+        </select>
+        <button onClick={handleAdd} style={secondaryButtonStyle}>
+          {t('site_rules_add', language)}
+        </button>
+      </div>
+
+      {/* Snoozed sites */}
+      {activeSnoozes.length > 0 && (
+        <div style={{ marginTop: '12px' }}>
+          <label style={{ ...labelStyle, fontSize: '13px' }}>{t('snoozed_label', language)}</label>
+          {activeSnoozes.map(([host, until]) => (
+            <div key={host} style={rowStyle}>
+              <span style={{ flex: 1, fontFamily: 'monospace' }}>{host}</span>
+              <span style={{ color: '#666' }}>
+                {t('snoozed_until', language)} {new Date(until).toLocaleString()}
+              </span>
+              <button onClick={() => onResume(host)} style={smallButtonStyle}>
+                {t('snooze_resume', language)}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { t } from '@/shared/i18n';
+import { getSettings } from '@/shared/storage';
+import { getUsageSummary, isOverDailyLimit } from '@/shared/usage';
+import type { Language, UsageTotals } from '@/shared/types';
+import { labelStyle } from './styles';
+
+interface UsagePanelProps {
+  language: Language;
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+// Today's and this month's token usage with estimated cost
+export const UsagePanel: React.FC<UsagePanelProps> = ({ language }) => {
+  const [summary, setSummary] = React.useState<{ today: UsageTotals; month: UsageTotals } | null>(null);
+  const [paused, setPaused] = React.useState(false);
+
+  React.useEffect(() => {
+    (async () => {
+      const [usage, settings] = await Promise.all([getUsageSummary(), getSettings()]);
+      setSummary(usage);
+      setPaused(isOverDailyLimit(usage.today, settings.usageLimits));
+    })();
+  }, []);
+
+  if (!summary) return null;
+
+  const rows: Array<{ label: string; totals: UsageTotals }> = [
+    { label: t('usage_today', language), totals: summary.today },
+    { label: t('usage_month', language), totals: summary.month },
+  ];
+
+  return (
+    <div style={{ marginBottom: '12px' }}>
+      <label style={labelStyle}>{t('usage_label', language)}</label>
+      {rows.map(({ label, totals }) => (
+        <div key={label} style={{ display: 'flex', gap: '8px', fontSize: '13px', color: '#333', marginBottom: '4px' }}>
+          <span style={{ width: '80px', color: '#666' }}>{label}</span>
+          <span style={{ flex: 1 }}>
+            {totals.assessments} {t('usage_assessments', language)} ·{' '}
+            {(totals.promptTokens + totals.responseTokens).toLocaleString()} {t('usage_tokens', language)}
+          </span>
+          <span style={{ fontFamily: 'monospace' }}>
+            {formatCost(totals.cost)}
+            {totals.unpriced > 0 && '*'}
+          </span>
+        </div>
+      ))}
+      {summary.month.unpriced > 0 && (
+        <div style={{ fontSize: '12px', color: '#666' }}>* {t('usage_unpriced', language)}</div>
+      )}
+      {paused && (
+        <div
+          style={{
+            marginTop: '8px',
+            padding: '8px 12px',
+            backgroundColor: '#fffbeb',
+            border: '1px solid #f59e0b',
+            borderRadius: '6px',
+            fontSize: '12px',
+            color: '#92400e',
+          }}
+        >
+          {t('usage_paused', language)}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React from 'react';
+import { t, getErrorMessage } from '@/shared/i18n';
+import { enableVault, unlockVault, lockVault, disableVault } from '@/shared/vault';
+import type { VaultStatus } from '@/shared/vault';
+import type { Language } from '@/shared/types';
+import { inputStyle, labelStyle, secondaryButtonStyle } from './styles';
+
+interface VaultSettingsProps {
+  language: Language;
+  status: VaultStatus;
+  autoLockMinutes: number;
+  onAutoLockMinutesChange: (minutes: number) => void;
+  onStatusChange: () => void; // Reload the popup so API keys reflect the new state
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// Set, unlock, lock or remove the master passphrase protecting stored API keys
+export const VaultSettings: React.FC<VaultSettingsProps> = ({
+  language,
+  status,
+  autoLockMinutes,
+  onAutoLockMinutesChange,
+  onStatusChange,
+}) => {
+  const [passphrase, setPassphrase] = React.useState('');
+  const [confirmation, setConfirmation] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null); // Error code or translation key
+  const [busy, setBusy] = React.useState(false); // Key derivation takes a moment
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setPassphrase('');
+      setConfirmation('');
+      onStatusChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'UNKNOWN_ERROR');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError('vault_too_short');
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError('vault_mismatch');
+      return;
+    }
+    run(() => enableVault(passphrase));
+  };
+
+  const errorText =
+    error === 'vault_too_short' || error === 'vault_mismatch' ? t(error, language) : error && getErrorMessage(error, language);
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <label style={labelStyle}>{t('vault_label', language)}</label>
+      <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px' }}>
+        {t(`vault_${status}_hint`, language)}
+      </div>
+
+      {status === 'disabled' && (
+        <>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={t('vault_passphrase_placeholder', language)}
+            style={{ ...inputStyle, marginBottom: '8px' }}
+          />
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder={t('vault_confirm_placeholder', language)}
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button onClick={handleEnable} disabled={busy} style={secondaryButtonStyle}>
+              {t('vault_enable', language)}
+            </button>
+          </div>
+        </>
+      )}
+
+      {status === 'locked' && (
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && run(() => unlockVault(passphrase))}
+            placeholder={t('vault_passphrase_placeholder', language)}
+            style={{ ...inputStyle, flex: 1 }}
+            autoFocus
+          />
+          <button onClick={() => run(() => unlockVault(passphrase))} disabled={busy} style={secondaryButtonStyle}>
+            {t('vault_unlock', language)}
+          </button>
+        </div>
+      )}
+
+      {status === 'unlocked' && (
+        <>
+          <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
+            <button onClick={() => run(lockVault)} disabled={busy} style={{ ...secondaryButtonStyle, flex: 1 }}>
+              {t('vault_lock', language)}
+            </button>
+            <button onClick={() => run(disableVault)} disabled={busy} style={{ ...secondaryButtonStyle, flex: 1 }}>
+              {t('vault_disable', language)}
+            </button>
+          </div>
+          <label htmlFor="vault-auto-lock" style={{ ...labelStyle, fontSize: '13px' }}>
+            {t('vault_auto_lock_label', language)}
+          </label>
+          <input
+            id="vault-auto-lock"
+            type="number"
+            min={0}
+            value={autoLockMinutes}
+            onChange={(e) => onAutoLockMinutesChange(Number(e.target.value))}
+            style={inputStyle}
+          />
+        </>
+      )}
+
+      {errorText && <div style={{ fontSize: '12px', marginTop: '8px', color: '#991b1b' }}>{errorText}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import type React from 'react';
+
+export const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid #ccc',
+  borderRadius: '6px',
+  fontSize: '14px',
+  fontFamily: 'monospace',
+};
+
+export const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '14px',
+  fontWeight: 600,
+  marginBottom: '8px',
+  color: '#333',
+};
+
+export const secondaryButtonStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  backgroundColor: '#f3f4f6',
+  border: '1px solid #ccc',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '14px',
+};
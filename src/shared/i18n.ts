@@ -6,6 +6,7 @@ const translations = {
     // UI
     assess_button: 'Assess Prompt',
     assessing: 'Assessing...',
+    retrying: 'Retrying',
     close: 'Close',
     language_toggle_en: 'EN',
     language_toggle_zh: '中文',
@@ -19,31 +20,157 @@ const translations = {
     explanation: 'Explanation:',
     missing_context: 'Missing:',
     no_assessment: 'Click "Assess" to evaluate your prompt',
+    dim_goalClarity: 'Goal clarity',
+    dim_context: 'Context',
+    dim_constraints: 'Constraints',
+    dim_outputFormat: 'Output format',
+    dim_examples: 'Examples',
+    dim_audience: 'Audience',
+    add_context_and_reassess: 'Add to prompt & re-assess',
+    improved_prompt: 'Suggested rewrite:',
+    apply_rewrite: 'Apply',
+    rewrite_applied: '✓ Applied',
+    manipulation_warning: 'This prompt seems to contain instructions aimed at the grader. Treat this score with caution.',
+    offline_notice: 'Offline estimate from rule-based checks. Add an API key or reconnect for a full assessment.',
+    temperature_label: 'Temperature',
+    max_tokens_label: 'Max output tokens',
+    thinking_budget_label: 'Thinking budget',
+    default_placeholder: 'Default',
+    usage_label: 'Usage',
+    usage_today: 'Today',
+    usage_month: 'This month',
+    usage_assessments: 'assessments',
+    usage_tokens: 'tokens',
+    usage_unpriced: 'Excludes assessments on models without known pricing.',
+    usage_paused: 'Daily limit reached. Auto-assessment is paused until tomorrow; Cmd/Ctrl+Shift+S still works.',
+    daily_cost_label: 'Daily budget (USD)',
+    daily_assessments_label: 'Daily assessments',
+    no_limit_placeholder: 'No limit',
+    vault_label: 'Master passphrase',
+    vault_disabled_hint: 'Without a passphrase, API keys are encrypted with a key stored on this device. Set one so keys can only be read after unlocking.',
+    vault_passphrase_placeholder: 'Passphrase',
+    vault_confirm_placeholder: 'Confirm passphrase',
+    vault_enable: 'Set passphrase',
+    vault_unlock: 'Unlock',
+    vault_lock: 'Lock now',
+    vault_disable: 'Remove passphrase',
+    vault_locked_hint: 'API keys are locked. Enter your passphrase to use or change them.',
+    vault_unlocked_hint: 'Unlocked for this browser session.',
+    vault_auto_lock_label: 'Lock after idle (minutes, 0 = when the browser closes)',
+    vault_mismatch: 'Passphrases do not match.',
+    vault_too_short: 'Use at least 8 characters.',
+    diagnostics_label: 'Diagnostics',
+    diagnostics_errors: 'Recent errors',
+    diagnostics_detectors: 'Detector matches',
+    diagnostics_latencies: 'Latencies',
+    diagnostics_average: 'avg',
+    diagnostics_none: 'None recorded',
+    diagnostics_clear: 'Clear',
+    log_level_off: 'Logging off',
+    log_level_error: 'Errors only',
+    log_level_info: 'Info',
+    log_level_debug: 'Debug',
+    log_prompt_text: 'Include prompt text in logs',
+    rubric_label: 'Rubric templates',
+    rubric_name_label: 'Template name',
+    rubric_new: 'New',
+    rubric_delete: 'Delete',
+    rubric_copy_suffix: ' (copy)',
+    rubric_builtin_readonly: 'The built-in template is read-only. Click New to edit a copy.',
+    rubric_variables_hint: 'Variables: {{prompt}} (the prompt being assessed), {{language}} (response language), {{platform}} (chatbot name)',
+    rubric_default_label: 'Default template',
+    rubric_sites_label: 'Per-site templates',
+    rubric_add_site: 'Add',
+    bundle_label: 'Team bundle',
+    bundle_export: 'Export',
+    bundle_import: 'Import',
+    bundle_review: 'Importing will make these changes:',
+    bundle_no_changes: 'This bundle matches your current settings.',
+    bundle_apply: 'Apply',
+    bundle_cancel: 'Cancel',
+    bundle_applied: 'Bundle imported.',
+    bundle_section_rubric: 'Rubric template',
+    bundle_section_defaultRubric: 'Default template',
+    bundle_section_siteRule: 'Site template',
+    bundle_section_siteAccess: 'Site rule',
+    bundle_section_velocity: 'Auto-assess timing',
+    bundle_section_glossary: 'Glossary',
 
     // Settings
     settings_title: 'Snap',
-    api_key_label: 'Gemini API Key',
+    provider_label: 'Assessment Provider',
+    provider_gemini: 'Google Gemini',
+    provider_openai: 'OpenAI-compatible',
+    provider_local: 'Local model (Ollama / llama.cpp)',
+    test_connection: 'Test Connection',
+    connection_ok: 'Local server is reachable',
+    endpoint_label: 'API Endpoint',
+    model_label: 'Model',
+    timeout_label: 'Timeout (seconds)',
+    retries_label: 'Retries',
+    threshold_orange_label: 'Orange from score',
+    threshold_green_label: 'Green from score',
+    api_key_label: 'API Key',
     api_key_placeholder: 'AIza...',
     api_key_show: 'Show',
     api_key_hide: 'Hide',
+    api_key_add: 'Add key',
+    api_key_check: 'Check',
+    api_key_checking: 'Checking...',
+    api_key_valid: 'Key works and the model is available.',
+    api_key_quota_exhausted: 'Key is valid but its quota is used up or rate limited right now.',
+    api_key_label_placeholder: 'Label (optional)',
+    api_key_rotation_hint: 'Keys are used in this order; when one is rate limited Snap switches to the next until it cools down.',
     save_key: 'Save Key',
     default_language_label: 'Default Language',
     extension_status_label: 'Extension Status',
     extension_enabled: 'Enabled',
     extension_disabled: 'Disabled',
-    help_text: 'Snap assesses your prompts in real-time using Gemini 3 Flash Preview.',
+    site_rules_label: 'Site rules',
+    site_rules_hint: 'Rules cover subdomains too. Once any site is allowed, Snap only runs on allowed sites.',
+    site_rule_allow: 'Allow',
+    site_rule_deny: 'Block',
+    site_rules_add: 'Add',
+    snooze_label: 'Snooze on this site',
+    snooze_hour: 'For 1 hour',
+    snooze_tomorrow: 'Until tomorrow',
+    snoozed_label: 'Snoozed sites',
+    snoozed_until: 'until',
+    snooze_resume: 'Resume',
+    custom_detectors_label: 'Custom prompt inputs',
+    custom_detectors_hint: 'If Snap picks the wrong input on a site, or none, point it at the right one. Picked inputs are tried before the built-in detectors.',
+    picker_start: 'Pick the prompt input on this page',
+    picker_hint: 'Click the prompt input for Snap to watch · Esc to cancel',
+    picker_not_editable: 'That element cannot hold a prompt. Click the text box you type into · Esc to cancel',
+    help_text: 'Snap assesses your prompts in real-time using Gemini or any OpenAI-compatible API.',
 
     // Errors
-    error_no_api_key: 'Please configure your Gemini API key in settings',
+    error_no_api_key: 'Please configure your API key in settings',
     error_network: 'Network error. Please check your connection.',
     error_rate_limit: 'Rate limit exceeded. Please wait a moment.',
     error_invalid_api_key: 'Invalid API key. Please check your settings.',
+    error_parse_failed: 'The model returned an unreadable assessment. Please try again.',
+    error_bundle_invalid: 'This file is not a valid Snap bundle.',
+    error_bundle_version: 'This bundle was made by a newer version of Snap. Please update the extension.',
+    error_vault_locked: 'Your API keys are locked. Open the Snap popup and enter your passphrase.',
+    error_vault_wrong_passphrase: 'Wrong passphrase.',
+    error_model_not_available: 'Key is valid, but this model is not available to it. Check the model name.',
+    error_picker_unavailable: 'Snap cannot run on this page. Reload the tab and try again, or open a regular web page.',
+    error_timeout: 'The assessment took too long. Please try again.',
+    error_stream_unavailable: 'The provider did not return a readable response stream. Please try again.',
+    error_port_disconnected: 'Lost the connection to the Snap background service. Please try again.',
+    error_service_unavailable: 'The assessment service keeps failing. Snap will try again in a minute.',
+    error_local_unavailable: 'Local model server is not running. Start it and check the endpoint in settings.',
+    error_local_model_not_found: 'Model not found on the local server. Pull it first (e.g. ollama pull llama3.1).',
+    error_local_origin_blocked: 'Local server rejected the extension. Set OLLAMA_ORIGINS=chrome-extension://* and restart it.',
+    error_api: 'The provider rejected the request. Check the model name and endpoint in settings.',
     error_unknown: 'An error occurred. Please try again.',
   },
   zh: {
     // UI
     assess_button: '评估提示词',
     assessing: '评估中...',
+    retrying: '重试中',
     close: '关闭',
     language_toggle_en: 'EN',
     language_toggle_zh: '中文',
@@ -57,25 +184,150 @@ const translations = {
     explanation: '说明：',
     missing_context: '缺少：',
     no_assessment: '点击"评估提示词"来评价您的提示词',
+    dim_goalClarity: '目标清晰度',
+    dim_context: '背景信息',
+    dim_constraints: '约束条件',
+    dim_outputFormat: '输出格式',
+    dim_examples: '示例',
+    dim_audience: '目标受众',
+    add_context_and_reassess: '补充到提示词并重新评估',
+    improved_prompt: '建议改写：',
+    apply_rewrite: '应用',
+    rewrite_applied: '✓ 已应用',
+    manipulation_warning: '该提示词似乎包含针对评估器的指令，请谨慎看待此评分。',
+    offline_notice: '离线估算，仅基于规则检查。添加 API Key 或恢复网络后可获得完整评估。',
+    temperature_label: '温度',
+    max_tokens_label: '最大输出 Token',
+    thinking_budget_label: '思考预算',
+    default_placeholder: '默认',
+    usage_label: '用量',
+    usage_today: '今日',
+    usage_month: '本月',
+    usage_assessments: '次评估',
+    usage_tokens: 'Token',
+    usage_unpriced: '不含无已知价格的模型上的评估。',
+    usage_paused: '已达到每日上限，自动评估将暂停至明天；Cmd/Ctrl+Shift+S 仍可使用。',
+    daily_cost_label: '每日预算（美元）',
+    daily_assessments_label: '每日评估次数',
+    no_limit_placeholder: '不限',
+    vault_label: '主密码',
+    vault_disabled_hint: '未设置主密码时，API 密钥使用保存在本设备上的密钥加密。设置主密码后，只有解锁才能读取密钥。',
+    vault_passphrase_placeholder: '主密码',
+    vault_confirm_placeholder: '确认主密码',
+    vault_enable: '设置主密码',
+    vault_unlock: '解锁',
+    vault_lock: '立即锁定',
+    vault_disable: '移除主密码',
+    vault_locked_hint: 'API 密钥已锁定，请输入主密码后使用或修改。',
+    vault_unlocked_hint: '已在本次浏览器会话中解锁。',
+    vault_auto_lock_label: '空闲后锁定（分钟，0 = 关闭浏览器时）',
+    vault_mismatch: '两次输入的主密码不一致。',
+    vault_too_short: '请至少使用 8 个字符。',
+    diagnostics_label: '诊断',
+    diagnostics_errors: '最近的错误',
+    diagnostics_detectors: '平台识别记录',
+    diagnostics_latencies: '延迟',
+    diagnostics_average: '平均',
+    diagnostics_none: '暂无记录',
+    diagnostics_clear: '清除',
+    log_level_off: '关闭日志',
+    log_level_error: '仅错误',
+    log_level_info: '信息',
+    log_level_debug: '调试',
+    log_prompt_text: '在日志中包含提示词文本',
+    rubric_label: '评估规则模板',
+    rubric_name_label: '模板名称',
+    rubric_new: '新建',
+    rubric_delete: '删除',
+    rubric_copy_suffix: '（副本）',
+    rubric_builtin_readonly: '内置模板不可编辑，点击"新建"可编辑其副本。',
+    rubric_variables_hint: '变量：{{prompt}}（被评估的提示词）、{{language}}（回复语言）、{{platform}}（聊天机器人名称）',
+    rubric_default_label: '默认模板',
+    rubric_sites_label: '按网站指定模板',
+    rubric_add_site: '添加',
+    bundle_label: '团队配置包',
+    bundle_export: '导出',
+    bundle_import: '导入',
+    bundle_review: '导入后将进行以下更改：',
+    bundle_no_changes: '该配置包与当前设置一致。',
+    bundle_apply: '应用',
+    bundle_cancel: '取消',
+    bundle_applied: '配置包已导入。',
+    bundle_section_rubric: '评估规则模板',
+    bundle_section_defaultRubric: '默认模板',
+    bundle_section_siteRule: '网站模板',
+    bundle_section_siteAccess: '网站规则',
+    bundle_section_velocity: '自动评估时机',
+    bundle_section_glossary: '术语表',
 
     // Settings
     settings_title: 'Snap',
-    api_key_label: 'Gemini API 密钥',
+    provider_label: '评估服务',
+    provider_gemini: 'Google Gemini',
+    provider_openai: 'OpenAI 兼容接口',
+    provider_local: '本地模型（Ollama / llama.cpp）',
+    test_connection: '测试连接',
+    connection_ok: '本地服务连接正常',
+    endpoint_label: 'API 地址',
+    model_label: '模型',
+    timeout_label: '超时（秒）',
+    retries_label: '重试次数',
+    threshold_orange_label: '橙色最低分',
+    threshold_green_label: '绿色最低分',
+    api_key_label: 'API 密钥',
     api_key_placeholder: 'AIza...',
     api_key_show: '显示',
     api_key_hide: '隐藏',
+    api_key_add: '添加密钥',
+    api_key_check: '检查',
+    api_key_checking: '检查中...',
+    api_key_valid: '密钥有效，模型可用。',
+    api_key_quota_exhausted: '密钥有效，但配额已用完或当前受到速率限制。',
+    api_key_label_placeholder: '名称（可选）',
+    api_key_rotation_hint: '密钥按此顺序使用；某个密钥触发速率限制时，Snap 会切换到下一个，直到其冷却结束。',
     save_key: '保存密钥',
     default_language_label: '默认语言',
     extension_status_label: '扩展状态',
     extension_enabled: '已启用',
     extension_disabled: '已禁用',
-    help_text: 'Snap 使用 Gemini 3 Flash Preview 实时评估您的提示词。',
+    site_rules_label: '网站规则',
+    site_rules_hint: '规则同样适用于子域名。一旦允许了任一网站，Snap 将只在允许的网站上运行。',
+    site_rule_allow: '允许',
+    site_rule_deny: '屏蔽',
+    site_rules_add: '添加',
+    snooze_label: '在此网站上暂停',
+    snooze_hour: '1 小时',
+    snooze_tomorrow: '直到明天',
+    snoozed_label: '已暂停的网站',
+    snoozed_until: '直到',
+    snooze_resume: '恢复',
+    custom_detectors_label: '自定义输入框',
+    custom_detectors_hint: '如果 Snap 在某个网站上选错了输入框或没有找到，可以手动指定。指定的输入框会优先于内置识别规则。',
+    picker_start: '在此页面上选择输入框',
+    picker_hint: '点击要让 Snap 监听的输入框 · 按 Esc 取消',
+    picker_not_editable: '该元素无法输入提示词，请点击您输入文字的文本框 · 按 Esc 取消',
+    help_text: 'Snap 使用 Gemini 或任意 OpenAI 兼容接口实时评估您的提示词。',
 
     // Errors
-    error_no_api_key: '请在设置中配置您的 Gemini API 密钥',
+    error_no_api_key: '请在设置中配置您的 API 密钥',
     error_network: '网络错误，请检查您的连接。',
     error_rate_limit: '超出速率限制，请稍后再试。',
     error_invalid_api_key: 'API 密钥无效，请检查您的设置。',
+    error_parse_failed: '模型返回的评估结果无法解析，请重试。',
+    error_bundle_invalid: '该文件不是有效的 Snap 配置包。',
+    error_bundle_version: '该配置包由更新版本的 Snap 创建，请更新扩展。',
+    error_vault_locked: 'API 密钥已锁定，请打开 Snap 弹窗并输入主密码。',
+    error_vault_wrong_passphrase: '主密码错误。',
+    error_model_not_available: '密钥有效，但无法使用该模型，请检查模型名称。',
+    error_picker_unavailable: 'Snap 无法在此页面运行。请刷新标签页后重试，或打开普通网页。',
+    error_timeout: '评估超时，请重试。',
+    error_stream_unavailable: '服务未返回可读取的响应流，请重试。',
+    error_port_disconnected: '与 Snap 后台服务的连接已断开，请重试。',
+    error_service_unavailable: '评估服务持续出错，Snap 将在一分钟后重试。',
+    error_local_unavailable: '本地模型服务未运行，请启动服务并检查设置中的地址。',
+    error_local_model_not_found: '本地服务上找不到该模型，请先拉取（例如 ollama pull llama3.1）。',
+    error_local_origin_blocked: '本地服务拒绝了扩展的请求，请设置 OLLAMA_ORIGINS=chrome-extension://* 后重启服务。',
+    error_api: '服务拒绝了该请求，请检查设置中的模型名称和接口地址。',
     error_unknown: '发生错误，请重试。',
   },
 };
@@ -98,6 +350,36 @@ export function getErrorMessage(error: string, lang: Language): string {
       return t('error_rate_limit', lang);
     case 'INVALID_API_KEY':
       return t('error_invalid_api_key', lang);
+    case 'PARSE_FAILED':
+      return t('error_parse_failed', lang);
+    case 'TIMEOUT':
+      return t('error_timeout', lang);
+    case 'STREAM_UNAVAILABLE':
+      return t('error_stream_unavailable', lang);
+    case 'PORT_DISCONNECTED':
+      return t('error_port_disconnected', lang);
+    case 'SERVICE_UNAVAILABLE':
+      return t('error_service_unavailable', lang);
+    case 'LOCAL_SERVER_UNAVAILABLE':
+      return t('error_local_unavailable', lang);
+    case 'LOCAL_MODEL_NOT_FOUND':
+      return t('error_local_model_not_found', lang);
+    case 'LOCAL_ORIGIN_BLOCKED':
+      return t('error_local_origin_blocked', lang);
+    case 'MODEL_NOT_AVAILABLE':
+      return t('error_model_not_available', lang);
+    case 'PICKER_UNAVAILABLE':
+      return t('error_picker_unavailable', lang);
+    case 'BUNDLE_INVALID':
+      return t('error_bundle_invalid', lang);
+    case 'BUNDLE_VERSION_UNSUPPORTED':
+      return t('error_bundle_version', lang);
+    case 'VAULT_LOCKED':
+      return t('error_vault_locked', lang);
+    case 'VAULT_WRONG_PASSPHRASE':
+      return t('error_vault_wrong_passphrase', lang);
+    case 'API_ERROR':
+      return t('error_api', lang);
     default:
       return t('error_unknown', lang);
   }
@@ -0,0 +1,177 @@
+import type { LogLevel } from './types';
+
+// Leveled logger shared by the background worker, content script and popup.
+// Secrets are always redacted; prompt and model text are redacted unless the user opts in.
+// Recent events are kept in a small ring buffer in storage for the Diagnostics view.
+
+export type LogEventLevel = Exclude<LogLevel, 'off'>;
+export type LogCategory = 'detector' | 'latency';
+
+export interface LogEvent {
+  time: number;
+  level: LogEventLevel;
+  tag: string;
+  message: string;
+  data?: unknown[];
+  category?: LogCategory;
+  durationMs?: number; // Latency events only
+}
+
+const DIAGNOSTICS_KEY = 'diagnosticsLog';
+const RING_BUFFER_SIZE = 100;
+const FLUSH_DELAY_MS = 1000;
+
+const LEVEL_RANK: Record<LogLevel, number> = { off: 0, error: 1, info: 2, debug: 3 };
+
+// Object keys whose values hold prompt or model text
+const TEXT_KEYS = new Set([
+  'promptText',
+  'text',
+  'userContent',
+  'instructions',
+  'content',
+  'improvedPrompt',
+  'explanation',
+  'missingContext',
+  'conversation',
+  'newChars',
+]);
+
+const SECRET_KEY_PATTERN = /^(api[-_]?key|key|token|secret|password|authorization|passphrase)$/i;
+
+const SECRET_PATTERNS: RegExp[] = [
+  /AIza[0-9A-Za-z_-]{20,}/g, // Google API keys
+  /\bsk-[A-Za-z0-9_-]{16,}/g, // OpenAI-style keys
+  /Bearer\s+[A-Za-z0-9._~+/=-]+/gi,
+  /([?&](?:key|api_key|token)=)[^&\s]+/gi,
+];
+
+let currentLevel: LogLevel = 'info';
+let includePromptText = false;
+let pending: LogEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Pick up the configured level now and whenever settings change
+if (typeof chrome !== 'undefined' && chrome.storage?.local) {
+  const applySettings = (settings?: { logLevel?: LogLevel; logPromptText?: boolean }) => {
+    currentLevel = settings?.logLevel ?? 'info';
+    includePromptText = settings?.logPromptText ?? false;
+  };
+
+  chrome.storage.local.get(['settings']).then((result) => applySettings(result.settings));
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === 'local' && changes.settings) {
+      applySettings(changes.settings.newValue);
+    }
+  });
+}
+
+export function redactSecrets(text: string): string {
+  return SECRET_PATTERNS.reduce(
+    (result, pattern) => result.replace(pattern, (match, prefix?: string) =>
+      typeof prefix === 'string' && match.startsWith(prefix) ? `${prefix}[redacted]` : '[redacted]'
+    ),
+    text
+  );
+}
+
+// Copy a value with secrets removed and, unless opted in, prompt text replaced by its length
+export function redact(value: unknown, key?: string, depth = 0): unknown {
+  if (key && SECRET_KEY_PATTERN.test(key)) {
+    return '[redacted]';
+  }
+
+  if (key && TEXT_KEYS.has(key) && !includePromptText) {
+    if (typeof value === 'string') return `[${value.length} chars]`;
+    if (Array.isArray(value)) return `[${value.length} items]`;
+    if (value !== null && value !== undefined) return '[redacted]';
+  }
+
+  if (typeof value === 'string') return redactSecrets(value);
+  if (value instanceof Error) return redactSecrets(`${value.name}: ${value.message}`);
+  if (depth > 4 || value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map((item) => redact(item, undefined, depth + 1));
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([entryKey, entryValue]) => [
+      entryKey,
+      redact(entryValue, entryKey, depth + 1),
+    ])
+  );
+}
+
+// Batch writes; contexts share one key, so an event can occasionally be lost to a race
+function scheduleFlush() {
+  if (flushTimer !== null || typeof chrome === 'undefined' || !chrome.storage?.local) return;
+
+  flushTimer = setTimeout(async () => {
+    flushTimer = null;
+    const batch = pending;
+    pending = [];
+
+    try {
+      const result = await chrome.storage.local.get([DIAGNOSTICS_KEY]);
+      const events: LogEvent[] = result[DIAGNOSTICS_KEY] || [];
+      await chrome.storage.local.set({ [DIAGNOSTICS_KEY]: [...events, ...batch].slice(-RING_BUFFER_SIZE) });
+    } catch (error) {
+      console.error('[Logger] Could not store diagnostics:', error);
+    }
+  }, FLUSH_DELAY_MS);
+}
+
+function emit(event: LogEvent) {
+  if (LEVEL_RANK[event.level] > LEVEL_RANK[currentLevel]) return;
+
+  const prefix = `[${event.tag}] ${event.message}`;
+  const data = event.data ?? [];
+  if (event.level === 'error') {
+    console.error(prefix, ...data);
+  } else {
+    console.log(prefix, ...data);
+  }
+
+  // Debug chatter stays in the console only
+  if (event.level !== 'debug') {
+    pending.push(event);
+    scheduleFlush();
+  }
+}
+
+export interface Logger {
+  error: (message: string, ...data: unknown[]) => void;
+  info: (message: string, ...data: unknown[]) => void;
+  debug: (message: string, ...data: unknown[]) => void;
+  detector: (message: string, ...data: unknown[]) => void;
+  latency: (message: string, durationMs: number) => void;
+}
+
+export function createLogger(tag: string): Logger {
+  const log = (level: LogEventLevel, message: string, data: unknown[], extra: Partial<LogEvent> = {}) =>
+    emit({
+      time: Date.now(),
+      level,
+      tag,
+      message: redactSecrets(message),
+      ...(data.length > 0 && { data: data.map((item) => redact(item)) }),
+      ...extra,
+    });
+
+  return {
+    error: (message, ...data) => log('error', message, data),
+    info: (message, ...data) => log('info', message, data),
+    debug: (message, ...data) => log('debug', message, data),
+    detector: (message, ...data) => log('info', message, data, { category: 'detector' }),
+    latency: (message, durationMs) =>
+      log('info', `${message} (${durationMs} ms)`, [], { category: 'latency', durationMs }),
+  };
+}
+
+// Recent events for the Diagnostics view, oldest first
+export async function getDiagnostics(): Promise<LogEvent[]> {
+  const result = await chrome.storage.local.get([DIAGNOSTICS_KEY]);
+  return result[DIAGNOSTICS_KEY] || [];
+}
+
+export async function clearDiagnostics(): Promise<void> {
+  await chrome.storage.local.remove([DIAGNOSTICS_KEY]);
+}
@@ -1,39 +1,157 @@
-import type { Message, Assessment, Language } from './types';
+import type {
+  Message,
+  MessageType,
+  Assessment,
+  Language,
+  PartialAssessment,
+  PromptContext,
+  ProviderId,
+  ProviderConfig,
+  RetryProgress,
+} from './types';
+import { createLogger } from './logger';
+
+const log = createLogger('Messages');
+
+// Name of the long-lived port between content/popup and the background worker
+export const PORT_NAME = 'snap';
+
+// Replies that report progress; any other reply settles the request
+const UPDATE_TYPES: MessageType[] = ['ASSESSMENT_PROGRESS', 'ASSESSMENT_PARTIAL'];
+
+interface PendingRequest {
+  resolve: (payload: any) => void;
+  reject: (error: Error) => void;
+  onUpdate?: (update: Message) => void;
+}
+
+let port: chrome.runtime.Port | null = null;
+const pendingRequests = new Map<string, PendingRequest>();
 
 // Generate unique request ID
-function generateRequestId(): string {
+export function generateRequestId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
-// Send message and wait for response
-export async function sendMessage<T>(message: Omit<Message, 'requestId'>): Promise<T> {
+// Connect lazily; the port drops whenever the service worker restarts
+function getPort(): chrome.runtime.Port {
+  if (port) return port;
+
+  const newPort = chrome.runtime.connect({ name: PORT_NAME });
+
+  newPort.onMessage.addListener((message: Message) => {
+    const pending = message.requestId ? pendingRequests.get(message.requestId) : undefined;
+    if (!pending || !message.requestId) return;
+
+    if (UPDATE_TYPES.includes(message.type)) {
+      pending.onUpdate?.(message);
+      return;
+    }
+
+    pendingRequests.delete(message.requestId);
+    if (message.type === 'ERROR') {
+      pending.reject(new Error(message.payload.error));
+    } else {
+      pending.resolve(message.payload);
+    }
+  });
+
+  newPort.onDisconnect.addListener(() => {
+    log.info('Port disconnected:', chrome.runtime.lastError?.message);
+    port = null;
+    pendingRequests.forEach((pending) => pending.reject(new Error('PORT_DISCONNECTED')));
+    pendingRequests.clear();
+  });
+
+  port = newPort;
+  return newPort;
+}
+
+// Send message over the port and wait for its final reply (a request ID is generated unless the caller tracks its own)
+export async function sendMessage<T>(
+  message: Message,
+  onUpdate?: (update: Message) => void
+): Promise<T> {
   return new Promise((resolve, reject) => {
-    const requestId = generateRequestId();
+    const requestId = message.requestId ?? generateRequestId();
     const fullMessage: Message = { ...message, requestId };
 
-    chrome.runtime.sendMessage(fullMessage, (response) => {
-      if (chrome.runtime.lastError) {
-        reject(new Error(chrome.runtime.lastError.message));
-        return;
-      }
-
-      if (response && response.error) {
-        reject(new Error(response.error));
-        return;
-      }
+    pendingRequests.set(requestId, { resolve, reject, onUpdate });
 
-      resolve(response);
-    });
+    try {
+      getPort().postMessage(fullMessage);
+    } catch (error) {
+      pendingRequests.delete(requestId);
+      reject(error instanceof Error ? error : new Error(String(error)));
+    }
   });
 }
 
-// Request prompt assessment
+export interface AssessmentHandlers {
+  onProgress?: (progress: RetryProgress) => void;
+  onPartial?: (partial: PartialAssessment) => void;
+}
+
+// Request prompt assessment; partial results stream in through the handlers
 export async function requestAssessment(
   promptText: string,
-  language: Language
+  language: Language,
+  context: PromptContext = {},
+  requestId?: string,
+  handlers: AssessmentHandlers = {}
 ): Promise<Assessment> {
-  return sendMessage<Assessment>({
-    type: 'ASSESS_PROMPT',
-    payload: { promptText, language },
+  return sendMessage<Assessment>(
+    {
+      type: 'ASSESS_PROMPT',
+      payload: { promptText, language, ...context },
+      requestId,
+    },
+    (update) => {
+      if (update.type === 'ASSESSMENT_PROGRESS') {
+        handlers.onProgress?.(update.payload);
+      } else if (update.type === 'ASSESSMENT_PARTIAL') {
+        handlers.onPartial?.(update.payload);
+      }
+    }
+  );
+}
+
+// Check that a provider's backend is reachable
+export async function checkProviderHealth(
+  provider: ProviderId,
+  config: ProviderConfig
+): Promise<{ ok: true }> {
+  return sendMessage<{ ok: true }>({
+    type: 'CHECK_PROVIDER',
+    payload: { provider, config },
+  });
+}
+
+// Ask the content script in the active tab to start the element picker. Goes straight to
+// the tab rather than over the background port; throws PICKER_UNAVAILABLE on pages Snap
+// can't run on (chrome:// pages, the Web Store, tabs opened before install)
+export async function startElementPicker(): Promise<void> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (tab?.id === undefined) {
+    throw new Error('PICKER_UNAVAILABLE');
+  }
+
+  try {
+    await chrome.tabs.sendMessage(tab.id, { type: 'START_ELEMENT_PICKER', payload: {} } satisfies Message);
+  } catch (error) {
+    log.error('Could not reach the page:', error);
+    throw new Error('PICKER_UNAVAILABLE');
+  }
+}
+
+// Check an API key with a cheap call before it is saved
+export async function validateApiKey(
+  provider: ProviderId,
+  apiKey: string,
+  config: ProviderConfig
+): Promise<{ ok: true }> {
+  return sendMessage<{ ok: true }>({
+    type: 'VALIDATE_KEY',
+    payload: { provider, apiKey, config },
   });
 }
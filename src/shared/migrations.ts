@@ -0,0 +1,70 @@
+import { normalizeSettings } from './storage';
+import { createLogger } from './logger';
+
+const log = createLogger('Migrations');
+
+// Stored data carries the schema version it was last migrated to. To change the shape of
+// anything in storage, add a migration with the next version number; each runs once, in
+// order, from the background worker when the extension is installed, updated or started.
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Complete stored settings with fields added since install',
+    migrate: async () => {
+      const result = await chrome.storage.local.get(['settings']);
+      if (result.settings) {
+        await chrome.storage.local.set({ settings: normalizeSettings(result.settings) });
+      }
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+let running: Promise<void> | null = null;
+
+async function migrate(): Promise<void> {
+  const result = await chrome.storage.local.get([SCHEMA_VERSION_KEY, 'settings']);
+
+  // Fresh installs have nothing to migrate; installs from before versioning start at 0
+  if (result[SCHEMA_VERSION_KEY] === undefined && !result.settings) {
+    await chrome.storage.local.set({ [SCHEMA_VERSION_KEY]: SCHEMA_VERSION });
+    return;
+  }
+
+  const storedVersion: number = result[SCHEMA_VERSION_KEY] ?? 0;
+  if (storedVersion > SCHEMA_VERSION) {
+    // Written by a newer build (e.g. after a downgrade); leave it alone
+    log.error(`Stored schema v${storedVersion} is newer than v${SCHEMA_VERSION}`);
+    return;
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= storedVersion) continue;
+
+    log.info(`Migrating to v${migration.version}: ${migration.description}`);
+    await migration.migrate();
+    // Record progress after each step so a failure resumes where it stopped
+    await chrome.storage.local.set({ [SCHEMA_VERSION_KEY]: migration.version });
+  }
+}
+
+// Bring stored data up to the current schema; concurrent callers share one run
+export function runMigrations(): Promise<void> {
+  if (!running) {
+    running = migrate().catch((error) => {
+      log.error('Migration failed:', error);
+      running = null; // Try again on the next trigger
+    });
+  }
+  return running;
+}
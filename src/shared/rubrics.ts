@@ -0,0 +1,52 @@
+import type { RubricTemplate, Settings } from './types';
+
+// Variables a rubric template may reference as {{name}}
+export const RUBRIC_VARIABLES = ['prompt', 'language', 'platform'] as const;
+export type RubricVariable = (typeof RUBRIC_VARIABLES)[number];
+
+export const BUILTIN_RUBRIC_ID = 'builtin';
+
+// Persona and grading criteria shipped with the extension; read-only in the editor
+export const BUILTIN_RUBRIC: RubricTemplate = {
+  id: BUILTIN_RUBRIC_ID,
+  name: 'Patient mentor (built-in)',
+  body: `You are an experienced and patient mentor to teach people how to properly write a prompt for {{platform}}. Assess {{prompt}} for quality. Rate it as RED (severely lack context), ORANGE (insufficient context, might cause misunderstanding), or GREEN (rich information).
+
+Criteria for overallScore:
+- Low (RED): Missing critical context, ambiguous intent, or unclear requirements
+- Middle (ORANGE): Has some context but could be improved with more specifics
+- High (GREEN): Clear intent, sufficient context, well-structured
+
+Communication style:
+Keep the explanation concise while instructional. On top of explaining the reasons, also tell the prompter how the model might interpret the current prompt wrongly. With each missing context, add a concise reason of why this would help. Write everything in {{language}}.
+If the assessment is green (aka.perfect), you don't need to offer any missing context, just leave it blank and tell user that the prompt is ready to go.`,
+};
+
+// Built-in template followed by the user's own
+export function getRubricTemplates(settings: Settings): RubricTemplate[] {
+  return [BUILTIN_RUBRIC, ...settings.rubricTemplates];
+}
+
+// Pick the template for a site: its own rule first, then the global default
+export function resolveRubricTemplate(settings: Settings, host?: string): RubricTemplate {
+  const templates = getRubricTemplates(settings);
+  const id = (host && settings.siteRubrics[normalizeHost(host)]) || settings.defaultRubricId;
+  return templates.find((template) => template.id === id) ?? BUILTIN_RUBRIC;
+}
+
+// Fill in {{variables}}; unknown names are left as written
+export function renderRubricTemplate(body: string, values: Record<RubricVariable, string>): string {
+  return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    (RUBRIC_VARIABLES as readonly string[]).includes(name) ? values[name as RubricVariable] : match
+  );
+}
+
+// Site rules are keyed by bare hostname, so "https://www.chatgpt.com/c/1" and "chatgpt.com" match
+export function normalizeHost(host: string): string {
+  return host
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/:].*$/, '')
+    .replace(/^www\./, '');
+}
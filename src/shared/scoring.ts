@@ -0,0 +1,23 @@
+import type { ScoreDimension, ScoreLevel, ScoreThresholds } from './types';
+
+// Rubric dimensions in display order
+export const SCORE_DIMENSIONS: ScoreDimension[] = [
+  'goalClarity',
+  'context',
+  'constraints',
+  'outputFormat',
+  'examples',
+  'audience',
+];
+
+export const DEFAULT_SCORE_THRESHOLDS: ScoreThresholds = {
+  orange: 40,
+  green: 75,
+};
+
+// Map a 0-100 score to the red/orange/green level
+export function deriveScoreLevel(score: number, thresholds: ScoreThresholds): ScoreLevel {
+  if (score >= thresholds.green) return 'green';
+  if (score >= thresholds.orange) return 'orange';
+  return 'red';
+}
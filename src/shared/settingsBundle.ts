@@ -0,0 +1,222 @@
+import type { GlossaryEntry, RubricTemplate, Settings, SiteRule } from './types';
+import { DEFAULT_CONFIG } from '@/utils/velocityTracker';
+import type { VelocityConfig } from '@/utils/velocityTracker';
+import { BUILTIN_RUBRIC_ID, normalizeHost } from './rubrics';
+import { createLogger } from './logger';
+
+const log = createLogger('Settings Bundle');
+
+// Shareable team configuration. Only the sections listed here travel in a bundle;
+// API keys and personal preferences (provider, language, thresholds) never do.
+
+export const BUNDLE_FORMAT = 'snap-bundle';
+export const BUNDLE_VERSION = 2; // v2 added siteRules
+
+export interface SettingsBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  rubricTemplates: RubricTemplate[];
+  defaultRubricId: string;
+  siteRubrics: Record<string, string>;
+  siteRules?: Record<string, SiteRule>; // Absent in v1 bundles, which leave local rules alone
+  velocityConfig: Partial<VelocityConfig>;
+  glossary: GlossaryEntry[];
+}
+
+export type BundleSection = 'rubric' | 'defaultRubric' | 'siteRule' | 'siteAccess' | 'velocity' | 'glossary';
+
+export interface BundleChange {
+  kind: 'added' | 'removed' | 'changed';
+  section: BundleSection;
+  label: string; // Template name, host, velocity setting or glossary term
+  before?: string;
+  after?: string;
+}
+
+// Snapshot the shareable parts of the settings
+export function createBundle(settings: Settings): SettingsBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    rubricTemplates: settings.rubricTemplates,
+    defaultRubricId: settings.defaultRubricId,
+    siteRubrics: settings.siteRubrics,
+    siteRules: settings.siteRules,
+    velocityConfig: settings.velocityConfig,
+    glossary: settings.glossary,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+// Parse and validate a bundle file; throws BUNDLE_INVALID or BUNDLE_VERSION_UNSUPPORTED
+export function parseBundle(json: string): SettingsBundle {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    log.error('Not valid JSON:', error);
+    throw new Error('BUNDLE_INVALID');
+  }
+
+  if (!isRecord(value) || value.format !== BUNDLE_FORMAT || typeof value.version !== 'number') {
+    throw new Error('BUNDLE_INVALID');
+  }
+  if (value.version > BUNDLE_VERSION) {
+    throw new Error('BUNDLE_VERSION_UNSUPPORTED');
+  }
+
+  const { rubricTemplates, defaultRubricId, siteRubrics, siteRules, velocityConfig, glossary } = value;
+
+  const templatesValid =
+    Array.isArray(rubricTemplates) &&
+    rubricTemplates.every(
+      (template) =>
+        isRecord(template) &&
+        isString(template.id) &&
+        template.id !== BUILTIN_RUBRIC_ID &&
+        isString(template.name) &&
+        isString(template.body)
+    );
+  if (!templatesValid) {
+    log.error('Invalid rubricTemplates');
+    throw new Error('BUNDLE_INVALID');
+  }
+
+  const templateIds = new Set([BUILTIN_RUBRIC_ID, ...rubricTemplates.map((template) => template.id as string)]);
+  if (!isString(defaultRubricId) || !templateIds.has(defaultRubricId)) {
+    log.error('defaultRubricId does not name a template');
+    throw new Error('BUNDLE_INVALID');
+  }
+
+  if (!isRecord(siteRubrics) || !Object.values(siteRubrics).every((id) => isString(id) && templateIds.has(id))) {
+    log.error('Invalid siteRubrics');
+    throw new Error('BUNDLE_INVALID');
+  }
+
+  if (
+    siteRules !== undefined &&
+    (!isRecord(siteRules) || !Object.values(siteRules).every((rule) => rule === 'allow' || rule === 'deny'))
+  ) {
+    log.error('Invalid siteRules');
+    throw new Error('BUNDLE_INVALID');
+  }
+
+  const velocityValid =
+    isRecord(velocityConfig) &&
+    Object.entries(velocityConfig).every(
+      ([key, setting]) => key in DEFAULT_CONFIG && typeof setting === 'number' && Number.isFinite(setting) && setting >= 0
+    );
+  if (!velocityValid) {
+    log.error('Invalid velocityConfig');
+    throw new Error('BUNDLE_INVALID');
+  }
+
+  const glossaryValid =
+    Array.isArray(glossary) &&
+    glossary.every((entry) => isRecord(entry) && isString(entry.term) && entry.term.trim() && isString(entry.definition));
+  if (!glossaryValid) {
+    log.error('Invalid glossary');
+    throw new Error('BUNDLE_INVALID');
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: value.version,
+    exportedAt: isString(value.exportedAt) ? value.exportedAt : '',
+    rubricTemplates: rubricTemplates as RubricTemplate[],
+    defaultRubricId,
+    siteRubrics: Object.fromEntries(
+      Object.entries(siteRubrics as Record<string, string>).map(([host, id]) => [normalizeHost(host), id])
+    ),
+    ...(siteRules !== undefined && {
+      siteRules: Object.fromEntries(
+        Object.entries(siteRules as Record<string, SiteRule>).map(([host, rule]) => [normalizeHost(host), rule])
+      ),
+    }),
+    velocityConfig: velocityConfig as Partial<VelocityConfig>,
+    glossary: glossary as GlossaryEntry[],
+  };
+}
+
+// Compare two keyed collections and report added, removed and changed entries
+function diffEntries(
+  section: BundleSection,
+  current: Record<string, string>,
+  incoming: Record<string, string>,
+  labelOf: (key: string) => string = (key) => key
+): BundleChange[] {
+  const changes: BundleChange[] = [];
+
+  for (const [key, after] of Object.entries(incoming)) {
+    const before = current[key];
+    if (before === undefined) {
+      changes.push({ kind: 'added', section, label: labelOf(key), after });
+    } else if (before !== after) {
+      changes.push({ kind: 'changed', section, label: labelOf(key), before, after });
+    }
+  }
+
+  for (const [key, before] of Object.entries(current)) {
+    if (!(key in incoming)) {
+      changes.push({ kind: 'removed', section, label: labelOf(key), before });
+    }
+  }
+
+  return changes;
+}
+
+// Everything importing the bundle would change, for review before applying
+export function diffBundle(settings: Settings, bundle: SettingsBundle): BundleChange[] {
+  const templateNames = new Map(
+    [...settings.rubricTemplates, ...bundle.rubricTemplates].map((template) => [template.id, template.name])
+  );
+  const nameOf = (id: string) => (id === BUILTIN_RUBRIC_ID ? 'built-in' : templateNames.get(id) ?? id);
+
+  const templatesById = (templates: RubricTemplate[]) =>
+    Object.fromEntries(templates.map((template) => [template.id, `${template.name}\n${template.body}`]));
+  const idsToNames = (rules: Record<string, string>) =>
+    Object.fromEntries(Object.entries(rules).map(([host, id]) => [host, nameOf(id)]));
+  const numbersToText = (config: Partial<VelocityConfig>) =>
+    Object.fromEntries(Object.entries(config).map(([key, setting]) => [key, String(setting)]));
+  const glossaryByTerm = (glossary: GlossaryEntry[]) =>
+    Object.fromEntries(glossary.map(({ term, definition }) => [term, definition]));
+
+  return [
+    // Template bodies are long; report which templates change rather than the text itself
+    ...diffEntries('rubric', templatesById(settings.rubricTemplates), templatesById(bundle.rubricTemplates), nameOf).map(
+      ({ before: _before, after: _after, ...change }) => change
+    ),
+    ...diffEntries(
+      'defaultRubric',
+      { default: nameOf(settings.defaultRubricId) },
+      { default: nameOf(bundle.defaultRubricId) },
+      () => ''
+    ),
+    ...diffEntries('siteRule', idsToNames(settings.siteRubrics), idsToNames(bundle.siteRubrics)),
+    ...(bundle.siteRules ? diffEntries('siteAccess', settings.siteRules, bundle.siteRules) : []),
+    ...diffEntries('velocity', numbersToText(settings.velocityConfig), numbersToText(bundle.velocityConfig)),
+    ...diffEntries('glossary', glossaryByTerm(settings.glossary), glossaryByTerm(bundle.glossary)),
+  ];
+}
+
+// The bundle replaces each shared section wholesale so every teammate ends up identical
+export function applyBundle(settings: Settings, bundle: SettingsBundle): Settings {
+  return {
+    ...settings,
+    rubricTemplates: bundle.rubricTemplates,
+    defaultRubricId: bundle.defaultRubricId,
+    siteRubrics: bundle.siteRubrics,
+    siteRules: bundle.siteRules ?? settings.siteRules,
+    velocityConfig: bundle.velocityConfig,
+    glossary: bundle.glossary,
+  };
+}
@@ -0,0 +1,175 @@
+import type { Settings } from './types';
+import { createLogger } from './logger';
+
+const log = createLogger('Settings Sync');
+
+// Non-secret preferences mirrored to chrome.storage.sync so they follow the user across
+// devices. The full settings object stays in chrome.storage.local; API keys, provider
+// endpoints and per-device choices (logging, budgets, vault timeout) never leave it.
+//
+// Each field is its own sync entry stamped with the time it last changed, so edits to
+// different fields on two devices both survive and the later edit of the same field wins.
+
+export const SYNCED_FIELDS = [
+  'defaultLanguage',
+  'enabled',
+  'siteRules',
+  'customDetectors',
+  'velocityConfig',
+  'rubricTemplates',
+  'defaultRubricId',
+  'siteRubrics',
+  'glossary',
+] as const;
+
+export type SyncedField = (typeof SYNCED_FIELDS)[number];
+
+interface SyncHeader {
+  updatedAt: number;
+  chunks: number;
+}
+
+const SYNC_PREFIX = 'sync_';
+const STAMPS_KEY = 'syncStamps'; // Local: field -> time this device last wrote or pulled it
+
+// chrome.storage.sync allows 8 KB per item; 2000 UTF-16 units stays under that even when
+// every character is multi-byte or needs escaping
+const CHUNK_CHARS = 2000;
+
+const headerKey = (field: SyncedField) => `${SYNC_PREFIX}${field}`;
+const chunkKey = (field: SyncedField, index: number) => `${SYNC_PREFIX}${field}_${index}`;
+
+function isSyncAvailable(): boolean {
+  return typeof chrome !== 'undefined' && !!chrome.storage?.sync;
+}
+
+async function getStamps(): Promise<Partial<Record<SyncedField, number>>> {
+  const result = await chrome.storage.local.get([STAMPS_KEY]);
+  return result[STAMPS_KEY] ?? {};
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+// Split into chunks without cutting a surrogate pair (e.g. an emoji) in half, which would
+// leave each chunk an invalid string
+function splitChunks(json: string): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < json.length) {
+    let end = Math.min(start + CHUNK_CHARS, json.length);
+    if (end < json.length && isHighSurrogate(json.charCodeAt(end - 1))) {
+      end--;
+    }
+    chunks.push(json.slice(start, end));
+    start = end;
+  }
+  return chunks.length > 0 ? chunks : [''];
+}
+
+// Write fields to sync. Failures (usually quota) are logged and leave the local copy
+// authoritative; they never fail the save.
+async function writeFields(changed: SyncedField[], next: Partial<Settings>): Promise<void> {
+  const now = Date.now();
+  const stamps = await getStamps();
+  const existing = await chrome.storage.sync.get(changed.map(headerKey));
+
+  for (const field of changed) {
+    const chunks = splitChunks(JSON.stringify(next[field]));
+    const header: SyncHeader = { updatedAt: now, chunks: chunks.length };
+    const items: Record<string, unknown> = { [headerKey(field)]: header };
+    chunks.forEach((chunk, index) => {
+      items[chunkKey(field, index)] = chunk;
+    });
+
+    try {
+      await chrome.storage.sync.set(items);
+
+      // Drop chunks left over from a longer earlier value
+      const previousChunks: number = existing[headerKey(field)]?.chunks ?? 0;
+      const stale = Array.from({ length: Math.max(0, previousChunks - chunks.length) }, (_, offset) =>
+        chunkKey(field, chunks.length + offset)
+      );
+      if (stale.length > 0) {
+        await chrome.storage.sync.remove(stale);
+      }
+
+      stamps[field] = now;
+    } catch (error) {
+      log.error(`Could not sync ${field}:`, error);
+    }
+  }
+
+  await chrome.storage.local.set({ [STAMPS_KEY]: stamps });
+}
+
+// Write the fields that changed between two settings snapshots
+export async function pushSettingsChanges(previous: Partial<Settings> | undefined, next: Settings): Promise<void> {
+  if (!isSyncAvailable()) return;
+
+  const changed = SYNCED_FIELDS.filter((field) => JSON.stringify(previous?.[field]) !== JSON.stringify(next[field]));
+  if (changed.length > 0) {
+    await writeFields(changed, next);
+  }
+}
+
+// Upload locally stored fields that no device has synced yet (installs from before sync)
+export async function seedSyncedSettings(): Promise<void> {
+  if (!isSyncAvailable()) return;
+
+  const { settings } = await chrome.storage.local.get(['settings']);
+  if (!settings) return;
+
+  const remote = await chrome.storage.sync.get(SYNCED_FIELDS.map(headerKey));
+  const missing = SYNCED_FIELDS.filter((field) => !remote[headerKey(field)] && settings[field] !== undefined);
+  if (missing.length > 0) {
+    await writeFields(missing, settings);
+  }
+}
+
+// Read every synced field and copy into local settings the ones changed elsewhere more
+// recently than here. Returns the fields that were updated.
+export async function pullSyncedSettings(): Promise<SyncedField[]> {
+  if (!isSyncAvailable()) return [];
+
+  const remote = await chrome.storage.sync.get(null);
+  const stamps = await getStamps();
+  const updates: Partial<Record<SyncedField, unknown>> = {};
+
+  for (const field of SYNCED_FIELDS) {
+    const header: SyncHeader | undefined = remote[headerKey(field)];
+    if (!header || header.updatedAt <= (stamps[field] ?? 0)) continue;
+
+    const chunks = Array.from({ length: header.chunks }, (_, index) => remote[chunkKey(field, index)]);
+    if (chunks.some((chunk) => typeof chunk !== 'string')) {
+      // Another device is mid-write; its remaining chunks trigger another pull
+      log.debug(`Incomplete sync entry for ${field}`);
+      continue;
+    }
+
+    try {
+      updates[field] = JSON.parse(chunks.join(''));
+      stamps[field] = header.updatedAt;
+    } catch (error) {
+      log.error(`Corrupt sync entry for ${field}:`, error);
+    }
+  }
+
+  const fields = Object.keys(updates) as SyncedField[];
+  if (fields.length === 0) return [];
+
+  const result = await chrome.storage.local.get(['settings']);
+  await chrome.storage.local.set({
+    settings: { ...result.settings, ...updates },
+    [STAMPS_KEY]: stamps,
+  });
+
+  log.info('Pulled synced settings:', fields);
+  return fields;
+}
+
+// Whether a storage change touched synced settings
+export function isSyncChange(changes: Record<string, chrome.storage.StorageChange>): boolean {
+  return Object.keys(changes).some((key) => key.startsWith(SYNC_PREFIX));
+}
@@ -0,0 +1,53 @@
+import type { Settings, SiteRule } from './types';
+import { normalizeHost } from './rubrics';
+
+// Where Snap may run. A rule for a domain also covers its subdomains and the most specific
+// rule wins. Deny rules always hide Snap; once any allow rule exists, Snap runs only on
+// allowed sites. Snoozes hide Snap on one site until a time and are kept on this device only.
+
+export type SnoozeOption = 'hour' | 'tomorrow';
+
+// The rule for the longest matching domain suffix, if any
+export function resolveSiteRule(siteRules: Record<string, SiteRule>, host: string): SiteRule | null {
+  const labels = normalizeHost(host).split('.');
+  for (let start = 0; start < labels.length; start++) {
+    const rule = siteRules[labels.slice(start).join('.')];
+    if (rule) return rule;
+  }
+  return null;
+}
+
+// Snooze end time for a host, if it is still snoozed
+export function getSnoozeEnd(snoozes: Record<string, number>, host: string, now: number = Date.now()): number | null {
+  const until = snoozes[normalizeHost(host)];
+  return until !== undefined && until > now ? until : null;
+}
+
+// Whether Snap should be mounted on this host right now
+export function isActiveOnHost(settings: Settings, host: string, now: number = Date.now()): boolean {
+  if (!settings.enabled || getSnoozeEnd(settings.snoozes, host, now) !== null) {
+    return false;
+  }
+
+  const rule = resolveSiteRule(settings.siteRules, host);
+  if (rule) {
+    return rule === 'allow';
+  }
+  return !Object.values(settings.siteRules).includes('allow');
+}
+
+export function getSnoozeUntil(option: SnoozeOption, now: number = Date.now()): number {
+  if (option === 'hour') {
+    return now + 60 * 60 * 1000;
+  }
+
+  // Local midnight at the start of tomorrow
+  const tomorrow = new Date(now);
+  tomorrow.setHours(24, 0, 0, 0);
+  return tomorrow.getTime();
+}
+
+// Drop snoozes that have already ended
+export function pruneSnoozes(snoozes: Record<string, number>, now: number = Date.now()): Record<string, number> {
+  return Object.fromEntries(Object.entries(snoozes).filter(([, until]) => until > now));
+}
@@ -1,50 +1,162 @@
-import { encrypt, decrypt } from '@/utils/encryption';
-import type { Settings, Language } from './types';
+import type {
+  ApiKeyEntry,
+  Settings,
+  Language,
+  ProviderId,
+  ProviderConfig,
+  ScoreThresholds,
+  RubricTemplate,
+  GenerationConfig,
+  UsageLimits,
+  LogLevel,
+  SiteRule,
+} from './types';
+import { DEFAULT_SCORE_THRESHOLDS } from './scoring';
+import { BUILTIN_RUBRIC_ID, normalizeHost } from './rubrics';
+import { pruneSnoozes } from './siteRules';
+import { encryptSecret, decryptSecret, refreshAutoLock, DEFAULT_AUTO_LOCK_MINUTES } from './vault';
+import { pushSettingsChanges } from './settingsSync';
+import { createLogger } from './logger';
 
-// Save encrypted Gemini API key
-export async function saveApiKey(key: string): Promise<void> {
-  const encrypted = await encrypt(key);
-  await chrome.storage.local.set({ apiKey_gemini: encrypted });
+const log = createLogger('Storage');
+
+// Default endpoint and model for each assessment provider
+export const DEFAULT_PROVIDER_CONFIGS: Record<ProviderId, ProviderConfig> = {
+  gemini: {
+    endpoint: 'https://generativelanguage.googleapis.com/v1beta',
+    model: 'gemini-3-flash-preview',
+  },
+  openai: {
+    endpoint: 'https://api.openai.com/v1',
+    model: 'gpt-4o-mini',
+  },
+  local: {
+    endpoint: 'http://localhost:11434',
+    model: 'llama3.1',
+  },
+};
+
+export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  temperature: 0.3,
+  maxOutputTokens: null,
+  thinkingBudget: null,
+};
+
+const DEFAULT_SETTINGS: Settings = {
+  defaultLanguage: 'zh',
+  enabled: true,
+  siteRules: {},
+  snoozes: {},
+  customDetectors: {},
+  provider: 'gemini',
+  providerConfigs: DEFAULT_PROVIDER_CONFIGS,
+  timeoutMs: 15000,
+  maxRetries: 2,
+  scoreThresholds: DEFAULT_SCORE_THRESHOLDS,
+  generation: DEFAULT_GENERATION_CONFIG,
+  usageLimits: { dailyCost: null, dailyAssessments: null },
+  logLevel: 'info',
+  logPromptText: false,
+  vaultAutoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+  rubricTemplates: [],
+  defaultRubricId: BUILTIN_RUBRIC_ID,
+  siteRubrics: {},
+  velocityConfig: {},
+  glossary: [],
+};
+
+// Save the encrypted key list for a provider; throws VAULT_LOCKED while the vault is locked
+export async function saveApiKeys(keys: ApiKeyEntry[], provider: ProviderId = 'gemini'): Promise<void> {
+  if (keys.length === 0) {
+    await clearApiKeys(provider);
+    return;
+  }
+  const encrypted = await encryptSecret(JSON.stringify(keys));
+  await chrome.storage.local.set({ [`apiKey_${provider}`]: encrypted });
 }
 
-// Get decrypted Gemini API key
-export async function getApiKey(): Promise<string | null> {
-  const result = await chrome.storage.local.get(['apiKey_gemini']);
-  const encrypted = result.apiKey_gemini;
+// Get the decrypted key list for a provider; throws VAULT_LOCKED while the vault is locked.
+// Pass keepAlive: false when only displaying the keys, so the vault's idle timer keeps running.
+export async function getApiKeys(provider: ProviderId = 'gemini', keepAlive: boolean = true): Promise<ApiKeyEntry[]> {
+  const storageKey = `apiKey_${provider}`;
+  const result = await chrome.storage.local.get([storageKey]);
+  const encrypted = result[storageKey];
 
-  if (!encrypted) return null;
+  if (!encrypted) return [];
 
+  let decrypted: string;
   try {
-    return await decrypt(encrypted);
+    decrypted = await decryptSecret(encrypted, keepAlive);
   } catch (error) {
-    console.error('[Storage] Failed to decrypt API key:', error);
-    return null;
+    if (error instanceof Error && error.message === 'VAULT_LOCKED') {
+      throw error;
+    }
+    log.error('Failed to decrypt API keys:', error);
+    return [];
+  }
+
+  // Installs from before key lists stored a single bare key
+  if (!decrypted.startsWith('[')) {
+    return [{ id: 'default', label: '', key: decrypted }];
+  }
+
+  try {
+    return JSON.parse(decrypted);
+  } catch (error) {
+    log.error('Stored API key list is corrupt:', error);
+    return [];
   }
 }
 
-// Clear API key
-export async function clearApiKey(): Promise<void> {
-  await chrome.storage.local.remove(['apiKey_gemini']);
+// Clear all API keys for a provider
+export async function clearApiKeys(provider: ProviderId = 'gemini'): Promise<void> {
+  await chrome.storage.local.remove([`apiKey_${provider}`]);
 }
 
-// Save settings
+// Save settings locally and mirror the shareable fields to chrome.storage.sync
 export async function saveSettings(settings: Settings): Promise<void> {
+  const previous = await chrome.storage.local.get(['settings']);
   await chrome.storage.local.set({ settings });
+  await pushSettingsChanges(previous.settings, settings);
 }
 
-// Get settings
-export async function getSettings(): Promise<Settings> {
-  const result = await chrome.storage.local.get(['settings']);
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
 
-  if (result.settings) {
-    return result.settings;
+// Recursively fill in defaults for anything missing or of the wrong type in stored data,
+// so fields added in later versions (including inside nested objects) are always present
+function mergeWithDefaults<T>(defaults: T, stored: unknown): T {
+  if (!isPlainObject(defaults) || !isPlainObject(stored)) {
+    return defaults;
   }
 
-  // Default settings
-  return {
-    defaultLanguage: 'zh',
-    enabled: true,
-  };
+  const merged: Record<string, unknown> = { ...defaults };
+  for (const [key, value] of Object.entries(stored)) {
+    const fallback = (defaults as Record<string, unknown>)[key];
+    if (value === undefined) continue;
+
+    if (isPlainObject(fallback)) {
+      merged[key] = mergeWithDefaults(fallback, value);
+    } else if (fallback === undefined || fallback === null) {
+      // Open-ended maps and nullable fields take the stored value as-is
+      merged[key] = value;
+    } else if (Array.isArray(fallback) ? Array.isArray(value) : typeof value === typeof fallback) {
+      merged[key] = value;
+    }
+  }
+  return merged as T;
+}
+
+// Complete a stored (possibly partial or outdated) settings object
+export function normalizeSettings(stored: unknown): Settings {
+  return mergeWithDefaults(DEFAULT_SETTINGS, stored);
+}
+
+// Get settings
+export async function getSettings(): Promise<Settings> {
+  const result = await chrome.storage.local.get(['settings']);
+  return normalizeSettings(result.settings);
 }
 
 // Save default language
@@ -60,6 +172,75 @@ export async function getDefaultLanguage(): Promise<Language> {
   return settings.defaultLanguage;
 }
 
+// Save active provider and its endpoint/model
+export async function saveProviderSettings(
+  provider: ProviderId,
+  config: ProviderConfig
+): Promise<void> {
+  const settings = await getSettings();
+  settings.provider = provider;
+  settings.providerConfigs = { ...settings.providerConfigs, [provider]: config };
+  await saveSettings(settings);
+}
+
+// Save request timeout and retry count
+export async function saveNetworkSettings(timeoutMs: number, maxRetries: number): Promise<void> {
+  const settings = await getSettings();
+  settings.timeoutMs = timeoutMs;
+  settings.maxRetries = maxRetries;
+  await saveSettings(settings);
+}
+
+// Save the overall-score thresholds for the orange and green levels
+export async function saveScoreThresholds(thresholds: ScoreThresholds): Promise<void> {
+  const settings = await getSettings();
+  settings.scoreThresholds = thresholds;
+  await saveSettings(settings);
+}
+
+// Save temperature, output token limit and thinking budget
+export async function saveGenerationSettings(generation: GenerationConfig): Promise<void> {
+  const settings = await getSettings();
+  settings.generation = generation;
+  await saveSettings(settings);
+}
+
+// Save the daily cost and assessment caps
+export async function saveUsageLimits(usageLimits: UsageLimits): Promise<void> {
+  const settings = await getSettings();
+  settings.usageLimits = usageLimits;
+  await saveSettings(settings);
+}
+
+// Save log verbosity and whether prompt text may appear in logs
+export async function saveLogSettings(logLevel: LogLevel, logPromptText: boolean): Promise<void> {
+  const settings = await getSettings();
+  settings.logLevel = logLevel;
+  settings.logPromptText = logPromptText;
+  await saveSettings(settings);
+}
+
+// Save how long the unlocked vault may sit idle before locking (0 = until the browser closes)
+export async function saveVaultAutoLock(minutes: number): Promise<void> {
+  const settings = await getSettings();
+  settings.vaultAutoLockMinutes = minutes;
+  await saveSettings(settings);
+  await refreshAutoLock();
+}
+
+// Save user rubric templates, the default template and per-site overrides
+export async function saveRubricSettings(
+  rubricTemplates: RubricTemplate[],
+  defaultRubricId: string,
+  siteRubrics: Record<string, string>
+): Promise<void> {
+  const settings = await getSettings();
+  settings.rubricTemplates = rubricTemplates;
+  settings.defaultRubricId = defaultRubricId;
+  settings.siteRubrics = siteRubrics;
+  await saveSettings(settings);
+}
+
 // Check if extension is enabled
 export async function isEnabled(): Promise<boolean> {
   const settings = await getSettings();
@@ -72,3 +253,39 @@ export async function setEnabled(enabled: boolean): Promise<void> {
   settings.enabled = enabled;
   await saveSettings(settings);
 }
+
+// Save per-site allow/deny rules
+export async function saveSiteRules(siteRules: Record<string, SiteRule>): Promise<void> {
+  const settings = await getSettings();
+  settings.siteRules = siteRules;
+  await saveSettings(settings);
+}
+
+// Hide Snap on a host until the given time
+export async function snoozeHost(host: string, until: number): Promise<void> {
+  const settings = await getSettings();
+  settings.snoozes = { ...pruneSnoozes(settings.snoozes), [normalizeHost(host)]: until };
+  await saveSettings(settings);
+}
+
+// Use a picked selector as this host's prompt input, ahead of the built-in detectors
+export async function saveCustomDetector(host: string, selector: string): Promise<void> {
+  const settings = await getSettings();
+  settings.customDetectors = { ...settings.customDetectors, [normalizeHost(host)]: selector };
+  await saveSettings(settings);
+}
+
+export async function removeCustomDetector(host: string): Promise<void> {
+  const settings = await getSettings();
+  const { [normalizeHost(host)]: _removed, ...rest } = settings.customDetectors;
+  settings.customDetectors = rest;
+  await saveSettings(settings);
+}
+
+// End a snooze early
+export async function clearSnooze(host: string): Promise<void> {
+  const settings = await getSettings();
+  const { [normalizeHost(host)]: _ended, ...rest } = settings.snoozes;
+  settings.snoozes = pruneSnoozes(rest);
+  await saveSettings(settings);
+}
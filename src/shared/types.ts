@@ -1,15 +1,146 @@
+import type { VelocityConfig } from '@/utils/velocityTracker';
+
 export type ScoreLevel = 'red' | 'orange' | 'green';
 export type Language = 'en' | 'zh';
+export type ProviderId = 'gemini' | 'openai' | 'local';
+export type LogLevel = 'off' | 'error' | 'info' | 'debug';
+export type SiteRule = 'allow' | 'deny';
+
+// Rubric dimensions scored individually by the assessor
+export type ScoreDimension =
+  | 'goalClarity'
+  | 'context'
+  | 'constraints'
+  | 'outputFormat'
+  | 'examples'
+  | 'audience';
+
+export type DimensionScores = Record<ScoreDimension, number>; // Each 0-100
+
+// Minimum overall score (0-100) for each level; below `orange` is red
+export interface ScoreThresholds {
+  orange: number;
+  green: number;
+}
+
+export interface ProviderConfig {
+  endpoint: string; // Base URL, e.g. https://api.openai.com/v1
+  model: string;
+}
+
+// One of possibly several keys for a provider; rotated through when one is rate limited
+export interface ApiKeyEntry {
+  id: string;
+  label: string; // e.g. "Team key"; may be blank
+  key: string;
+}
+
+// Sampling and budget parameters sent with every assessment request
+export interface GenerationConfig {
+  temperature: number;
+  maxOutputTokens: number | null; // null leaves the provider default
+  thinkingBudget: number | null; // Gemini only; null leaves the model default, 0 turns thinking off
+}
+
+// Tokens billed for one assessment; responseTokens includes any thinking tokens
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+}
+
+export interface UsageTotals {
+  assessments: number;
+  promptTokens: number;
+  responseTokens: number;
+  cost: number; // Estimated USD
+  unpriced: number; // Assessments on models without known pricing (not in cost)
+}
+
+// Daily caps after which auto-assessment pauses; null means no cap
+export interface UsageLimits {
+  dailyCost: number | null; // USD
+  dailyAssessments: number | null;
+}
 
 export interface Settings {
   defaultLanguage: Language;
   enabled: boolean;
+  siteRules: Record<string, SiteRule>; // Hostname (and its subdomains) -> rule
+  snoozes: Record<string, number>; // Hostname -> timestamp Snap stays hidden until; this device only
+  customDetectors: Record<string, string>; // Hostname -> selector of the prompt input, picked by the user
+  provider: ProviderId;
+  providerConfigs: Record<ProviderId, ProviderConfig>;
+  timeoutMs: number; // Per-attempt request timeout
+  maxRetries: number; // Retries after the first attempt
+  scoreThresholds: ScoreThresholds;
+  generation: GenerationConfig;
+  usageLimits: UsageLimits;
+  logLevel: LogLevel;
+  logPromptText: boolean; // Include prompt and model text in logs instead of redacting it
+  vaultAutoLockMinutes: number; // Idle time before the passphrase vault locks; 0 = never
+  rubricTemplates: RubricTemplate[]; // User templates; the built-in one is not stored
+  defaultRubricId: string;
+  siteRubrics: Record<string, string>; // Hostname -> rubric template id
+  velocityConfig: Partial<VelocityConfig>; // Overrides for the auto-assess timing
+  glossary: GlossaryEntry[];
+}
+
+// A saved rubric template; the body may use {{prompt}}, {{language}} and {{platform}}
+export interface RubricTemplate {
+  id: string;
+  name: string;
+  body: string;
+}
+
+// Team term the grader should treat as already known to the chatbot
+export interface GlossaryEntry {
+  term: string;
+  definition: string;
+}
+
+// A visible turn of the chat thread the prompt is written into
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  text: string;
 }
 
+// Page the prompt is written on, sent along with it for assessment
+export interface PromptContext {
+  conversation?: ConversationTurn[];
+  host?: string;
+  platform?: string;
+}
+
+// Assessment fields received so far while the model response is streaming
+export interface PartialAssessment {
+  score?: ScoreLevel;
+  overallScore?: number;
+  dimensions?: Partial<DimensionScores>;
+  explanation?: string;
+  missingContext?: string[];
+}
+
+export interface RetryProgress {
+  attempt: number;
+  maxAttempts: number;
+}
+
+// Signs that a prompt tries to steer the grader instead of stating its task
+export type ManipulationFlag =
+  | 'instruction_override'
+  | 'score_dictation'
+  | 'role_hijack'
+  | 'delimiter_spoofing';
+
 export interface Assessment {
-  score: ScoreLevel;
+  score: ScoreLevel; // Derived from overallScore and the configured thresholds
+  overallScore: number; // 0-100
+  dimensions: DimensionScores;
   explanation: string;
   missingContext: string[];
+  improvedPrompt: string; // Suggested rewrite with [placeholders] for the missing context
+  manipulationFlags?: ManipulationFlag[];
+  offline?: boolean; // Produced by the rule-based fallback rather than a model
   timestamp: number;
 }
 
@@ -22,6 +153,13 @@ export interface Message<T = any> {
 export type MessageType =
   | 'ASSESS_PROMPT'
   | 'ASSESSMENT_RESULT'
+  | 'ASSESSMENT_PROGRESS'
+  | 'ASSESSMENT_PARTIAL'
+  | 'PROVIDER_STATUS'
+  | 'CHECK_PROVIDER'
+  | 'START_ELEMENT_PICKER'
+  | 'VALIDATE_KEY'
+  | 'KEY_STATUS'
   | 'GET_SETTINGS'
   | 'SAVE_SETTINGS'
   | 'ERROR';
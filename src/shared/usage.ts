@@ -0,0 +1,100 @@
+import type { ProviderId, TokenUsage, UsageLimits, UsageTotals } from './types';
+import { createLogger } from './logger';
+
+const log = createLogger('Usage');
+
+// Token usage is aggregated per local calendar day in chrome.storage.local
+const USAGE_KEY = 'usageLog';
+const RETENTION_DAYS = 62; // Enough for this month and last
+
+// USD per million tokens; first matching model-name prefix wins, so list specific names first
+const MODEL_PRICING: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'gemini-3-flash', input: 0.5, output: 3 },
+  { prefix: 'gemini-3-pro', input: 2, output: 12 },
+  { prefix: 'gemini-2.5-flash-lite', input: 0.1, output: 0.4 },
+  { prefix: 'gemini-2.5-flash', input: 0.3, output: 2.5 },
+  { prefix: 'gemini-2.5-pro', input: 1.25, output: 10 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+];
+
+type UsageLog = Record<string, UsageTotals>; // YYYY-MM-DD -> totals
+
+function emptyTotals(): UsageTotals {
+  return { assessments: 0, promptTokens: 0, responseTokens: 0, cost: 0, unpriced: 0 };
+}
+
+// Local calendar date, so "today" matches the user's day rather than UTC
+function dateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Estimated USD cost, or null when the model is not in the price table
+export function estimateCost(provider: ProviderId, model: string, usage: TokenUsage): number | null {
+  if (provider === 'local') return 0;
+
+  const pricing = MODEL_PRICING.find(({ prefix }) => model.startsWith(prefix));
+  if (!pricing) return null;
+
+  return (usage.promptTokens * pricing.input + usage.responseTokens * pricing.output) / 1_000_000;
+}
+
+// Add one assessment's token counts to today's totals
+export async function recordUsage(provider: ProviderId, model: string, usage: TokenUsage): Promise<void> {
+  const result = await chrome.storage.local.get([USAGE_KEY]);
+  const usageLog: UsageLog = result[USAGE_KEY] || {};
+  const today = dateKey(new Date());
+  const totals = usageLog[today] ?? emptyTotals();
+  const cost = estimateCost(provider, model, usage);
+
+  usageLog[today] = {
+    assessments: totals.assessments + 1,
+    promptTokens: totals.promptTokens + usage.promptTokens,
+    responseTokens: totals.responseTokens + usage.responseTokens,
+    cost: totals.cost + (cost ?? 0),
+    unpriced: totals.unpriced + (cost === null ? 1 : 0),
+  };
+
+  // Drop days past the retention window
+  const cutoff = dateKey(new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000));
+  for (const day of Object.keys(usageLog)) {
+    if (day < cutoff) delete usageLog[day];
+  }
+
+  await chrome.storage.local.set({ [USAGE_KEY]: usageLog });
+  log.info('Recorded:', today, usageLog[today]);
+}
+
+// Totals for today and for the current calendar month
+export async function getUsageSummary(): Promise<{ today: UsageTotals; month: UsageTotals }> {
+  const result = await chrome.storage.local.get([USAGE_KEY]);
+  const usageLog: UsageLog = result[USAGE_KEY] || {};
+  const today = dateKey(new Date());
+  const monthPrefix = today.slice(0, 7);
+
+  const month = Object.entries(usageLog)
+    .filter(([day]) => day.startsWith(monthPrefix))
+    .reduce(
+      (sum, [, totals]) => ({
+        assessments: sum.assessments + totals.assessments,
+        promptTokens: sum.promptTokens + totals.promptTokens,
+        responseTokens: sum.responseTokens + totals.responseTokens,
+        cost: sum.cost + totals.cost,
+        unpriced: sum.unpriced + totals.unpriced,
+      }),
+      emptyTotals()
+    );
+
+  return { today: usageLog[today] ?? emptyTotals(), month };
+}
+
+// Whether today's usage has reached either daily cap
+export function isOverDailyLimit(today: UsageTotals, limits: UsageLimits): boolean {
+  if (limits.dailyCost !== null && today.cost >= limits.dailyCost) return true;
+  if (limits.dailyAssessments !== null && today.assessments >= limits.dailyAssessments) return true;
+  return false;
+}
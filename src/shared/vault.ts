@@ -0,0 +1,221 @@
+import {
+  getDeviceKey,
+  deleteDeviceKey,
+  deriveKeyFromPassphrase,
+  encryptWithKey,
+  decryptWithKey,
+  importRawKey,
+  exportRawKey,
+  generateSalt,
+  toBase64,
+  fromBase64,
+  PBKDF2_ITERATIONS,
+} from '@/utils/encryption';
+import { createLogger } from './logger';
+
+const log = createLogger('Vault');
+
+// Optional master passphrase for stored API keys. Without it, keys are encrypted with the
+// device key kept beside them. With it, the key is derived from the passphrase and the
+// unlocked key lives only in chrome.storage.session, which is never written to disk and
+// is not readable from content scripts.
+
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+interface VaultMeta {
+  salt: string; // base64
+  iterations: number;
+  check: string; // Known plaintext encrypted with the derived key, to verify the passphrase
+}
+
+interface VaultSession {
+  key: string; // base64 raw key
+  lastUsed: number;
+}
+
+const VAULT_KEY = 'vault';
+const SESSION_KEY = 'vaultSession';
+const SECRET_PREFIX = 'apiKey_';
+const CHECK_PLAINTEXT = 'snap-vault';
+
+// Fires when an unlocked session would go idle; handled by the background worker
+export const AUTO_LOCK_ALARM = 'vaultAutoLock';
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+async function getVaultMeta(): Promise<VaultMeta | null> {
+  const result = await chrome.storage.local.get([VAULT_KEY]);
+  return result[VAULT_KEY] ?? null;
+}
+
+async function getAutoLockMs(): Promise<number> {
+  const result = await chrome.storage.local.get(['settings']);
+  const minutes: number = result.settings?.vaultAutoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+  return minutes * 60 * 1000;
+}
+
+// Schedule the lock for when the session goes idle, so the key leaves session storage
+// even if nothing reads it again
+async function scheduleAutoLock(lastUsed: number): Promise<void> {
+  const autoLockMs = await getAutoLockMs();
+  if (autoLockMs > 0) {
+    await chrome.alarms.create(AUTO_LOCK_ALARM, { when: lastUsed + autoLockMs });
+  } else {
+    await chrome.alarms.clear(AUTO_LOCK_ALARM);
+  }
+}
+
+async function startSession(key: CryptoKey): Promise<void> {
+  const session: VaultSession = { key: toBase64(await exportRawKey(key)), lastUsed: Date.now() };
+  await chrome.storage.session.set({ [SESSION_KEY]: session });
+  await scheduleAutoLock(session.lastUsed);
+}
+
+// The unlocked session, or null when locked. Idle sessions are locked lazily here; reading
+// the session does not count as using it.
+async function getSession(): Promise<VaultSession | null> {
+  const result = await chrome.storage.session.get([SESSION_KEY]);
+  const session: VaultSession | undefined = result[SESSION_KEY];
+  if (!session) return null;
+
+  const autoLockMs = await getAutoLockMs();
+  if (autoLockMs > 0 && Date.now() - session.lastUsed >= autoLockMs) {
+    log.info('Locking after idle timeout');
+    await lockVault();
+    return null;
+  }
+  return session;
+}
+
+// The unlocked key, or null when locked. With keepAlive the idle timer restarts; reads that
+// only display state (e.g. the popup opening) pass false so they don't hold the vault open.
+async function getSessionKey(keepAlive: boolean = true): Promise<CryptoKey | null> {
+  const session = await getSession();
+  if (!session) return null;
+
+  if (keepAlive) {
+    const lastUsed = Date.now();
+    await chrome.storage.session.set({ [SESSION_KEY]: { ...session, lastUsed } });
+    await scheduleAutoLock(lastUsed);
+  }
+  return await importRawKey(fromBase64(session.key));
+}
+
+// Key used for API key encryption right now; throws VAULT_LOCKED when the passphrase is needed
+async function getActiveKey(keepAlive: boolean = true): Promise<CryptoKey> {
+  if (!(await getVaultMeta())) {
+    return await getDeviceKey();
+  }
+
+  const key = await getSessionKey(keepAlive);
+  if (!key) {
+    throw new Error('VAULT_LOCKED');
+  }
+  return key;
+}
+
+// Re-encrypt every stored API key from one key to another
+async function reencryptSecrets(from: CryptoKey, to: CryptoKey): Promise<Record<string, string>> {
+  const stored = await chrome.storage.local.get(null);
+  const updated: Record<string, string> = {};
+
+  for (const [storageKey, value] of Object.entries(stored)) {
+    if (!storageKey.startsWith(SECRET_PREFIX) || typeof value !== 'string') continue;
+
+    try {
+      updated[storageKey] = await encryptWithKey(to, await decryptWithKey(from, value));
+    } catch (error) {
+      // Unreadable with the old key, so it is useless either way; the user re-enters it
+      log.error(`Dropping unreadable ${storageKey}:`, error);
+      await chrome.storage.local.remove([storageKey]);
+    }
+  }
+
+  return updated;
+}
+
+export async function getVaultStatus(): Promise<VaultStatus> {
+  if (!(await getVaultMeta())) return 'disabled';
+  return (await getSession()) ? 'unlocked' : 'locked';
+}
+
+// Encrypt an API key with the active key
+export async function encryptSecret(plaintext: string): Promise<string> {
+  return await encryptWithKey(await getActiveKey(), plaintext);
+}
+
+// Decrypt an API key with the active key; keepAlive: false leaves the idle timer running
+export async function decryptSecret(ciphertext: string, keepAlive: boolean = true): Promise<string> {
+  return await decryptWithKey(await getActiveKey(keepAlive), ciphertext);
+}
+
+// Turn the vault on: existing keys (including ones saved before the vault existed) are
+// re-encrypted under the passphrase and the device key is deleted
+export async function enableVault(passphrase: string): Promise<void> {
+  if (await getVaultMeta()) {
+    throw new Error('VAULT_ALREADY_ENABLED');
+  }
+
+  const salt = generateSalt();
+  const key = await deriveKeyFromPassphrase(passphrase, salt, PBKDF2_ITERATIONS);
+  const secrets = await reencryptSecrets(await getDeviceKey(), key);
+
+  const meta: VaultMeta = {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: await encryptWithKey(key, CHECK_PLAINTEXT),
+  };
+
+  await chrome.storage.local.set({ ...secrets, [VAULT_KEY]: meta });
+  await deleteDeviceKey();
+  await startSession(key);
+  log.info('Vault enabled');
+}
+
+// Derive the key from the passphrase and hold it for this browser session
+export async function unlockVault(passphrase: string): Promise<void> {
+  const meta = await getVaultMeta();
+  if (!meta) {
+    throw new Error('VAULT_NOT_ENABLED');
+  }
+
+  const key = await deriveKeyFromPassphrase(passphrase, fromBase64(meta.salt), meta.iterations);
+  try {
+    if ((await decryptWithKey(key, meta.check)) !== CHECK_PLAINTEXT) {
+      throw new Error('check mismatch');
+    }
+  } catch {
+    throw new Error('VAULT_WRONG_PASSPHRASE');
+  }
+
+  await startSession(key);
+  log.info('Vault unlocked');
+}
+
+export async function lockVault(): Promise<void> {
+  await chrome.storage.session.remove([SESSION_KEY]);
+  await chrome.alarms.clear(AUTO_LOCK_ALARM);
+}
+
+// Lock an idle session now, or move the auto-lock to match its last use and the current
+// timeout. Runs when the alarm fires and after the timeout setting changes.
+export async function refreshAutoLock(): Promise<void> {
+  const session = await getSession();
+  if (session) {
+    await scheduleAutoLock(session.lastUsed);
+  }
+}
+
+// Remove the passphrase; keys go back to the device key. Must be unlocked first.
+export async function disableVault(): Promise<void> {
+  const key = await getSessionKey();
+  if (!key) {
+    throw new Error('VAULT_LOCKED');
+  }
+
+  const secrets = await reencryptSecrets(key, await getDeviceKey());
+  await chrome.storage.local.set(secrets);
+  await chrome.storage.local.remove([VAULT_KEY]);
+  await lockVault();
+  log.info('Vault disabled');
+}
@@ -0,0 +1,21 @@
+import type { ConversationTurn } from '@/shared/types';
+
+// Bounds for the slice of the chat thread sent along with a prompt
+const MAX_TURNS = 6;
+const MAX_TURN_CHARS = 800;
+const MAX_TOTAL_CHARS = 4000;
+
+// Keep the most recent turns, truncating long ones and dropping the oldest past the budget
+export function buildConversationWindow(turns: ConversationTurn[]): ConversationTurn[] {
+  const recent = turns.slice(-MAX_TURNS).map((turn) => ({
+    role: turn.role,
+    text: turn.text.length > MAX_TURN_CHARS ? `${turn.text.slice(0, MAX_TURN_CHARS - 1)}…` : turn.text,
+  }));
+
+  let total = recent.reduce((sum, turn) => sum + turn.text.length, 0);
+  while (recent.length > 0 && total > MAX_TOTAL_CHARS) {
+    total -= recent.shift()?.text.length ?? 0;
+  }
+
+  return recent;
+}
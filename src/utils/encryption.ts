@@ -1,24 +1,49 @@
 // Web Crypto API encryption for API keys
-// Uses AES-GCM encryption with a key derived from the user's environment
+// AES-GCM with either a per-installation device key or a key derived from the user's passphrase
 
 const ALGORITHM = 'AES-GCM';
 const KEY_LENGTH = 256;
 const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
 
-// Get or generate encryption key
-async function getEncryptionKey(): Promise<CryptoKey> {
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 600000;
+
+export function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+export function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), c => c.charCodeAt(0));
+}
+
+export function generateSalt(): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+}
+
+// Import raw key bytes (device key or an unlocked passphrase key)
+export async function importRawKey(raw: BufferSource): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    'raw',
+    raw,
+    { name: ALGORITHM, length: KEY_LENGTH },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function exportRawKey(key: CryptoKey): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.exportKey('raw', key));
+}
+
+// Get or generate the device key. It sits next to the ciphertext in chrome.storage.local,
+// so it only obscures keys; a passphrase vault replaces it with a derived key.
+export async function getDeviceKey(): Promise<CryptoKey> {
   const stored = await chrome.storage.local.get(['encryptionKey']);
 
   if (stored.encryptionKey) {
     // Import existing key
-    const keyData = Uint8Array.from(atob(stored.encryptionKey), c => c.charCodeAt(0));
-    return await crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: ALGORITHM, length: KEY_LENGTH },
-      false,
-      ['encrypt', 'decrypt']
-    );
+    return await importRawKey(fromBase64(stored.encryptionKey));
   }
 
   // Generate new key
@@ -29,16 +54,41 @@ async function getEncryptionKey(): Promise<CryptoKey> {
   );
 
   // Store the key
-  const exported = await crypto.subtle.exportKey('raw', key);
-  const keyString = btoa(String.fromCharCode(...new Uint8Array(exported)));
-  await chrome.storage.local.set({ encryptionKey: keyString });
+  await chrome.storage.local.set({ encryptionKey: toBase64(await exportRawKey(key)) });
 
   return key;
 }
 
+// Remove the device key once nothing is encrypted with it any more
+export async function deleteDeviceKey(): Promise<void> {
+  await chrome.storage.local.remove(['encryptionKey']);
+}
+
+// Derive an AES key from a passphrase with PBKDF2-SHA256
+export async function deriveKeyFromPassphrase(
+  passphrase: string,
+  salt: BufferSource,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: ALGORITHM, length: KEY_LENGTH },
+    true, // Extractable so the unlocked key can be held in chrome.storage.session
+    ['encrypt', 'decrypt']
+  );
+}
+
 // Encrypt a string
-export async function encrypt(plaintext: string): Promise<string> {
-  const key = await getEncryptionKey();
+export async function encryptWithKey(key: CryptoKey, plaintext: string): Promise<string> {
   const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
   const encoder = new TextEncoder();
   const data = encoder.encode(plaintext);
@@ -55,13 +105,12 @@ export async function encrypt(plaintext: string): Promise<string> {
   combined.set(new Uint8Array(ciphertext), iv.length);
 
   // Return as base64
-  return btoa(String.fromCharCode(...combined));
+  return toBase64(combined);
 }
 
 // Decrypt a string
-export async function decrypt(ciphertext: string): Promise<string> {
-  const key = await getEncryptionKey();
-  const combined = Uint8Array.from(atob(ciphertext), c => c.charCodeAt(0));
+export async function decryptWithKey(key: CryptoKey, ciphertext: string): Promise<string> {
+  const combined = fromBase64(ciphertext);
 
   // Split IV and ciphertext
   const iv = combined.slice(0, IV_LENGTH);
@@ -0,0 +1,79 @@
+/**
+ * Word-level text diff for showing a prompt rewrite against the original
+ */
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+// Above this many LCS cells the diff degrades to "all removed, all added"
+const MAX_DIFF_CELLS = 250000;
+
+/**
+ * Split into words, whitespace runs and single CJK characters (CJK has no spaces)
+ */
+function tokenize(text: string): string[] {
+  return text.match(/[\u4e00-\u9fff]|\s+|[^\s\u4e00-\u9fff]+/g) || [];
+}
+
+/**
+ * Diff two texts token by token using the longest common subsequence
+ */
+export function diffWords(original: string, revised: string): DiffSegment[] {
+  const a = tokenize(original);
+  const b = tokenize(revised);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return mergeSegments([
+      { type: 'removed', text: original },
+      { type: 'added', text: revised },
+    ]);
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      segments.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      segments.push({ type: 'removed', text: a[i++] });
+    } else {
+      segments.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) segments.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) segments.push({ type: 'added', text: b[j++] });
+
+  return mergeSegments(segments);
+}
+
+/**
+ * Join adjacent segments of the same type and drop empty ones
+ */
+function mergeSegments(segments: DiffSegment[]): DiffSegment[] {
+  const merged: DiffSegment[] = [];
+  for (const segment of segments) {
+    if (!segment.text) continue;
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
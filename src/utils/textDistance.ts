@@ -0,0 +1,46 @@
+/**
+ * Text distance helpers shared by the velocity tracker and the assessment cache
+ */
+
+/**
+ * Calculate change percentage between two texts (Levenshtein distance)
+ */
+export function calculateChangePercent(text1: string, text2: string): number {
+  if (!text2) return 1.0; // Nothing to compare against counts as a full change
+
+  const distance = levenshteinDistance(text1, text2);
+  const maxLength = Math.max(text1.length, text2.length);
+
+  return maxLength > 0 ? distance / maxLength : 0;
+}
+
+/**
+ * Calculate Levenshtein distance between two strings (two-row DP).
+ * With a limit, stops early and returns limit + 1 once the distance must exceed it.
+ */
+export function levenshteinDistance(str1: string, str2: string, limit: number = Infinity): number {
+  const m = str1.length;
+  const n = str2.length;
+  if (Math.abs(m - n) > limit) return limit + 1;
+
+  let previous: number[] = Array.from({ length: n + 1 }, (_, j) => j);
+  let current: number[] = new Array(n + 1).fill(0);
+
+  for (let i = 1; i <= m; i++) {
+    current[0] = i;
+    let rowMin = i;
+    for (let j = 1; j <= n; j++) {
+      if (str1[i - 1] === str2[j - 1]) {
+        current[j] = previous[j - 1];
+      } else {
+        current[j] = Math.min(previous[j], current[j - 1], previous[j - 1]) + 1;
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    // Row minimums never decrease, so the final distance is at least this
+    if (rowMin > limit) return limit + 1;
+    [previous, current] = [current, previous];
+  }
+
+  return previous[n];
+}
@@ -3,6 +3,11 @@
  * Based on cognitive research of typing patterns and pause behavior
  */
 
+import { calculateChangePercent } from './textDistance';
+import { createLogger } from '@/shared/logger';
+
+const log = createLogger('VelocityTracker');
+
 export type VelocityState = 'FLOW' | 'EDITING' | 'REVIEWING' | 'STOPPED';
 
 export interface VelocityConfig {
@@ -38,7 +43,8 @@ interface CharTimestamp {
   timestamp: number;
 }
 
-export type TriggerCallback = (text: string) => void;
+export type TriggerSource = 'auto' | 'manual'; // Velocity countdown vs forceTrigger
+export type TriggerCallback = (text: string, source: TriggerSource) => void;
 export type StateChangeCallback = (state: VelocityState, opacity: number) => void;
 
 const THROWAWAY_PHRASES = [
@@ -87,7 +93,7 @@ export class VelocityTracker {
       this.sampleVelocity();
     }, this.config.sampleInterval);
 
-    console.log('[VelocityTracker] Started tracking');
+    log.debug('Started tracking');
   }
 
   /**
@@ -99,7 +105,7 @@ export class VelocityTracker {
       this.sampleTimer = null;
     }
     this.cancelCountdown();
-    console.log('[VelocityTracker] Stopped tracking');
+    log.debug('Stopped tracking');
   }
 
   /**
@@ -119,6 +125,14 @@ export class VelocityTracker {
     }
   }
 
+  /**
+   * Replace tuning loaded after construction (e.g. from settings).
+   * sampleInterval only applies from the next start().
+   */
+  public setConfig(config: Partial<VelocityConfig>) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
   /**
    * Handle IME composition events
    */
@@ -149,7 +163,7 @@ export class VelocityTracker {
     if (text.length >= 10) {
       // Lower minimum for manual trigger
       this.cancelCountdown();
-      this.executeAssessment(text);
+      this.executeAssessment(text, 'manual');
     }
   }
 
@@ -177,7 +191,7 @@ export class VelocityTracker {
       newState = 'STOPPED';
     }
 
-    console.log(`[VelocityTracker] Sample: ${charsPerSecond} c/s → ${newState}`);
+    log.debug(`Sample: ${charsPerSecond} c/s → ${newState}`);
 
     // Handle state transition
     if (newState !== this.currentState) {
@@ -192,7 +206,7 @@ export class VelocityTracker {
     this.previousState = this.currentState;
     this.currentState = newState;
 
-    console.log(`[VelocityTracker] State: ${this.previousState} → ${newState}`);
+    log.debug(`State: ${this.previousState} → ${newState}`);
 
     // Update visual state
     const opacity = this.getOpacityForState(newState);
@@ -234,12 +248,12 @@ export class VelocityTracker {
    */
   private startCountdown() {
     if (!this.getCurrentText) {
-      console.log('[VelocityTracker] No getCurrentText callback, skipping countdown');
+      log.debug('No getCurrentText callback, skipping countdown');
       return;
     }
 
     const promptText = this.getCurrentText();
-    console.log(`[VelocityTracker] Countdown check - text length: ${promptText.length}, previous state: ${this.previousState}`);
+    log.debug(`Countdown check - text length: ${promptText.length}, previous state: ${this.previousState}`);
 
     // Determine wait time based on content and previous state
     let waitTime: number;
@@ -250,24 +264,24 @@ export class VelocityTracker {
     if (hasPunctuation) {
       // Has punctuation - likely complete thought
       waitTime = this.config.naturalCompletionWait; // 6 seconds
-      console.log(`[VelocityTracker] Natural completion trigger (${this.previousState} → STOPPED with punctuation)`);
+      log.debug(`Natural completion trigger (${this.previousState} → STOPPED with punctuation)`);
     } else {
       // No punctuation - still treat as planning pause
       waitTime = this.config.planningPauseWait; // 8 seconds
-      console.log(
-        `[VelocityTracker] Planning pause trigger (${this.previousState} → STOPPED, no punctuation)`
+      log.debug(
+        `Planning pause trigger (${this.previousState} → STOPPED, no punctuation)`
       );
     }
 
-    console.log(
-      `[VelocityTracker] Countdown started: ${waitTime}ms (punctuation: ${hasPunctuation})`
+    log.debug(
+      `Countdown started: ${waitTime}ms (punctuation: ${hasPunctuation})`
     );
 
     // Progressive visual feedback at 3 seconds
     const midpointTimer = setTimeout(() => {
       if (this.currentState === 'STOPPED') {
         this.stateChangeCallback?.(this.currentState, 0.8);
-        console.log('[VelocityTracker] Countdown midpoint - increasing opacity');
+        log.debug('Countdown midpoint - increasing opacity');
       }
     }, 3000);
 
@@ -277,10 +291,10 @@ export class VelocityTracker {
         const text = this.getCurrentText();
         if (this.passesPreFilters(text)) {
           this.stateChangeCallback?.(this.currentState, 1.0);
-          console.log('[VelocityTracker] Triggering assessment');
-          this.executeAssessment(text);
+          log.debug('Triggering assessment');
+          this.executeAssessment(text, 'auto');
         } else {
-          console.log('[VelocityTracker] Failed pre-filters, skipping assessment');
+          log.debug('Failed pre-filters, skipping assessment');
         }
       }
       clearTimeout(midpointTimer);
@@ -294,17 +308,17 @@ export class VelocityTracker {
     if (this.countdownTimer) {
       clearTimeout(this.countdownTimer);
       this.countdownTimer = null;
-      console.log('[VelocityTracker] Countdown cancelled');
+      log.debug('Countdown cancelled');
     }
   }
 
   /**
    * Execute assessment
    */
-  private executeAssessment(text: string) {
+  private executeAssessment(text: string, source: TriggerSource) {
     this.lastAssessedText = text;
     this.lastAssessmentTime = Date.now();
-    this.triggerCallback?.(text);
+    this.triggerCallback?.(text, source);
   }
 
   /**
@@ -315,21 +329,21 @@ export class VelocityTracker {
 
     // Check minimum length
     if (text.length < this.config.minPromptLength) {
-      console.log('[VelocityTracker] Pre-filter failed: too short');
+      log.debug('Pre-filter failed: too short');
       return false;
     }
 
     // Check cooldown period
     if (now - this.lastAssessmentTime < this.config.cooldownPeriod) {
-      console.log('[VelocityTracker] Pre-filter failed: cooldown active');
+      log.debug('Pre-filter failed: cooldown active');
       return false;
     }
 
     // Check content change
-    const changePercent = this.calculateChangePercent(text, this.lastAssessedText);
+    const changePercent = calculateChangePercent(text, this.lastAssessedText);
     if (changePercent < this.config.minChangePercent) {
-      console.log(
-        `[VelocityTracker] Pre-filter failed: insufficient change (${Math.round(changePercent * 100)}%)`
+      log.debug(
+        `Pre-filter failed: insufficient change (${Math.round(changePercent * 100)}%)`
       );
       return false;
     }
@@ -337,7 +351,7 @@ export class VelocityTracker {
     // Check throwaway text
     const lowerText = text.toLowerCase().trim();
     if (THROWAWAY_PHRASES.some((phrase) => lowerText === phrase)) {
-      console.log('[VelocityTracker] Pre-filter failed: throwaway phrase');
+      log.debug('Pre-filter failed: throwaway phrase');
       return false;
     }
 
@@ -354,42 +368,4 @@ export class VelocityTracker {
     const lastChar = trimmed[trimmed.length - 1];
     return PUNCTUATION.includes(lastChar);
   }
-
-  /**
-   * Calculate change percentage between two texts (Levenshtein distance)
-   */
-  private calculateChangePercent(text1: string, text2: string): number {
-    if (!text2) return 1.0; // First assessment always passes
-
-    const distance = this.levenshteinDistance(text1, text2);
-    const maxLength = Math.max(text1.length, text2.length);
-
-    return maxLength > 0 ? distance / maxLength : 0;
-  }
-
-  /**
-   * Calculate Levenshtein distance between two strings
-   */
-  private levenshteinDistance(str1: string, str2: string): number {
-    const m = str1.length;
-    const n = str2.length;
-    const dp: number[][] = Array(m + 1)
-      .fill(null)
-      .map(() => Array(n + 1).fill(0));
-
-    for (let i = 0; i <= m; i++) dp[i][0] = i;
-    for (let j = 0; j <= n; j++) dp[0][j] = j;
-
-    for (let i = 1; i <= m; i++) {
-      for (let j = 1; j <= n; j++) {
-        if (str1[i - 1] === str2[j - 1]) {
-          dp[i][j] = dp[i - 1][j - 1];
-        } else {
-          dp[i][j] = Math.min(dp[i - 1][j], dp[i][j - 1], dp[i - 1][j - 1]) + 1;
-        }
-      }
-    }
-
-    return dp[m][n];
-  }
 }